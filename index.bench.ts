@@ -0,0 +1,47 @@
+import { bench, describe } from "vitest"
+import { Check } from "./index"
+
+class Tag extends Check.define({ name:{ v:"t", min:1, max:20 }}) {}
+
+class Event extends Check.define({
+  id:{ v:1, min:1 },
+  kind:{ v:"click", allowed:["click", "view", "purchase"] },
+  user:{ v:"u", min:1, max:40, regex:/^[a-z0-9]+$/ },
+  at:{ v:new Date(0) },
+  amount:{ v:0.5, min:0, integer:false, required:false },
+  tags:{ v:[Check.sample(Tag)], max:10 },
+  props:{ v:Check.record("") },
+}) {}
+
+const events = Array.from({ length:1000 }, (_, i) => JSON.parse(Check.stringify(Event, Check.arbitrary(Event, { seed:i }))))
+const invalid = Array.from({ length:1000 }, (_, i) => Check.arbitraryInvalid(Event, { seed:i }).json)
+const mixed = events.map((e, i) => i % 10 === 0 ? invalid[i]! : e)
+const validate = Check.compile(Event)
+const options = { time:2000, warmupTime:1000 }
+
+describe("valid events", () => {
+  bench("run", () => {
+    for (const e of events) Check.run(Event, e)
+  }, options)
+  bench("compile", () => {
+    for (const e of events) validate(e)
+  }, options)
+})
+
+describe("invalid events", () => {
+  bench("run", () => {
+    for (const e of invalid) Check.run(Event, e)
+  }, options)
+  bench("compile", () => {
+    for (const e of invalid) validate(e)
+  }, options)
+})
+
+describe("mixed events, one in ten invalid", () => {
+  bench("run", () => {
+    for (const e of mixed) Check.run(Event, e)
+  }, options)
+  bench("compile", () => {
+    for (const e of mixed) validate(e)
+  }, options)
+})
@@ -1,4 +1,4 @@
-import { BIGINT, Check, Fail } from "./index"
+import { BIGINT, Base, Check, CheckError, Fail } from "./index"
 
 import {
   afterEach,
@@ -22,6 +22,7 @@ beforeEach(() => {
 })
 
 afterEach(() => {
+  Check.collectAllFails(false)
   Check.warnWith(console.warn)
   Check.augmentWith(o => o)
 })
@@ -334,6 +335,69 @@ test("runOne", () => {
   expect(fails[0]?.message).toBe("value of -1 < minimum value of 0")
 })
 
+describe("all fails", () => {
+  class E extends Check.define({ n:{ v:1, min:1 }}) {}
+  class C extends Check.define({
+    s:{ v:"x", min:1, max:3 },
+    n:{ v:0 },
+    o:{ v:Check.sample(E) },
+    a:{ v:[Check.sample(E)] },
+  }) {}
+  const bad = { s:"", o:{ n:0 }, a:[{ n:1 }, { n:-1 }, { n:0 }] }
+  test("off by default", () => {
+    const r = Check.run(C, bad)
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails).toHaveLength(1)
+      expect(r.fail.prefix).toBe("s")
+    }
+  })
+  test("run", () => {
+    Check.collectAllFails(true)
+    const r = Check.run(C, bad)
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fail.prefix).toBe("s")
+      expect(r.fails.map(x => x.prefix + " " + x.code)).toStrictEqual([
+        "s MIN",
+        "n REQ",
+        "o.n MIN",
+        "a[1].n MIN",
+        "a[2].n MIN",
+      ])
+    }
+  })
+  test("type mismatches in arrays", () => {
+    Check.collectAllFails(true)
+    const r = Check.run(C, { s:"x", n:1, o:{ n:1 }, a:[1, { n:1 }, "x"] })
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails.map(x => x.prefix)).toStrictEqual(["a[0]", "a[2]"])
+    }
+  })
+  test("CheckError", () => {
+    Check.collectAllFails(true)
+    try {
+      new C(bad as never)
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(CheckError)
+      const ce = e as CheckError
+      expect(ce.prefix).toBe("s")
+      expect(ce.fails).toHaveLength(5)
+      expect(ce.message).toBe([
+        "s: length of 0 < minimum length of 1",
+        "n: missing required property",
+        "o.n: value of 0 < minimum value of 1",
+        "a[1].n: value of -1 < minimum value of 1",
+        "a[2].n: value of 0 < minimum value of 1",
+      ].join("\n"))
+    }
+    expect(() => { Check.raise(C, bad) }).toThrow("a[2].n: value of 0 < minimum value of 1")
+    expect(() => { Check.parse(C, JSON.stringify(bad)) }).toThrow("o.n: value of 0 < minimum value of 1")
+  })
+})
+
 test("parse", () => {
   class E extends Check.define({p:{v:""}}) {}
   const e = Check.parse(E, '{"p":"s"}')
@@ -397,8 +461,71 @@ test("recursive data types", () => {
   expect(foo.bar?.plusOne).toBe(23)
 })
 
+describe("coercion", () => {
+  afterEach(() => {
+    Check.coerceTypes(true)
+  })
+  test("dates", () => {
+    class C extends Check.define({
+      d:{ v:new Date(0), min:new Date(Date.UTC(2000, 0, 1)) },
+      ds:{ v:[new Date(0)], required:"default" },
+    }) {}
+    expect(Check.raise(C, { d:"2020-02-03T04:05:06.789Z" }).d).toStrictEqual(new Date(Date.UTC(2020, 1, 3, 4, 5, 6, 789)))
+    expect(Check.raise(C, { d:"2020-02-03" }).d).toStrictEqual(new Date(Date.UTC(2020, 1, 3)))
+    expect(Check.raise(C, { d:"2020-02-03T04:05+01:00" }).d).toStrictEqual(new Date(Date.UTC(2020, 1, 3, 3, 5)))
+    expect(Check.raise(C, { d:1e12 }).d).toStrictEqual(new Date(1e12))
+    expect(Check.raise(C, { d:1e12, ds:["2001-01-01", 1e12] }).ds).toStrictEqual([new Date(Date.UTC(2001, 0, 1)), new Date(1e12)])
+    expect(() => { Check.raise(C, { d:"1999-12-31" })}).toThrow("d: value of")
+    expect(() => { Check.raise(C, { d:"yesterday" })}).toThrow("d: invalid date: yesterday")
+    expect(() => { Check.raise(C, { d:"2020-13-45" })}).toThrow("d: invalid date: 2020-13-45")
+    expect(() => { Check.raise(C, { d:"2021-02-29" })}).toThrow("d: invalid date: 2021-02-29")
+    expect(() => { Check.raise(C, { d:"2020-04-31T10:00Z" })}).toThrow("d: invalid date: 2020-04-31T10:00Z")
+    expect(() => { Check.raise(C, { d:"2020-02-30" })}).toThrow("d: invalid date: 2020-02-30")
+    expect(Check.raise(C, { d:"2020-02-29" }).d).toStrictEqual(new Date(Date.UTC(2020, 1, 29)))
+    expect(() => { Check.raise(C, { d:1e20 })}).toThrow("d: invalid date: 100000000000000000000")
+    expect(() => { Check.raise(C, { d:true })}).toThrow("d: expected date string or number but got boolean")
+    const c = Check.raise(C, { d:"2020-02-03T04:05:06.789Z" })
+    expect(c.ds).toStrictEqual([])
+    expect(Check.stringify(C, c)).toBe(`{"d":"2020-02-03T04:05:06.789Z","ds":[]}`)
+    expect(Check.parse(C, Check.stringify(C, c))).toStrictEqual(c)
+    expect(Check.toJsonSchema(C).properties).toStrictEqual({
+      d:{ type:"string", format:"date-time" },
+      ds:{ type:"array", items:{ type:"string", format:"date-time" }, default:[] },
+    })
+  })
+  test("default dates are copies", () => {
+    class C extends Check.define({ d:{ v:new Date(0), required:"default" }}) {}
+    const c = Check.raise(C, {})
+    expect(c.d).toStrictEqual(new Date(0))
+    expect(c.d).not.toBe(Check.sample(C).d)
+  })
+  test("bigints", () => {
+    class C extends Check.define({ b:{ v:BigInt(0), max:BigInt(100) }, d:{ v:BigInt(3), required:"default" }}) {}
+    expect(Check.raise(C, { b:"-12" }).b).toBe(BigInt(-12))
+    expect(Check.raise(C, { b:"-12" }).d).toBe(BigInt(3))
+    expect(() => { Check.raise(C, { b:"101" })}).toThrow("b: value of 101 > maximum value of 100")
+    expect(() => { Check.raise(C, { b:"1.5" })}).toThrow("b: invalid bigint string: 1.5")
+    expect(() => { Check.raise(C, { b:12 })}).toThrow("b: expected bigint string but got number")
+    expect(Check.stringify(C, Check.raise(C, { b:"7" }))).toBe(`{"b":"7","d":"3"}`)
+    expect((Check.toJsonSchema(C).properties as any).b).toStrictEqual({ type:"string", pattern:"^-?[0-9]+$" })
+    class D extends Check.define({ b:{ v:BigInt(7) }, m:{ v:BigInt(0), min:BigInt(5) }, n:{ v:BigInt(0), max:BigInt(-50) }}) {}
+    for (let seed = 0; seed < 5; seed++) {
+      const d = Check.arbitrary(D, { seed })
+      expect([d.b >= BigInt(-93) && d.b <= BigInt(107), d.m >= BigInt(5), d.n <= BigInt(-50)]).toStrictEqual([true, true, true])
+    }
+  })
+  test("strict", () => {
+    Check.coerceTypes(false)
+    class C extends Check.define({ d:{ v:new Date(0) }, b:{ v:BigInt(0) }}) {}
+    expect(() => { Check.raise(C, { d:"2020-01-01", b:BigInt(1) })}).toThrow("d: expected Date but got string")
+    expect(() => { Check.raise(C, { d:new Date(), b:"1" })}).toThrow("b: expected bigint but got string")
+    expect(Check.raise(C, { d:new Date(5), b:BigInt(1) }).d).toStrictEqual(new Date(5))
+  })
+})
+
 test("types", () => {
-  Check.addType({
+  const context = Check.createContext()
+  context.addType({
     name:"bigint",
     priority:500_000_000,
     appliesTo:(v:unknown) => typeof(v) === "bigint",
@@ -416,10 +543,12 @@ test("types", () => {
       }
     }
   })
-  class C extends Check.define({n:{v:BigInt(0)}}) {}
+  class C extends context.define({n:{v:BigInt(0)}}) {}
   const o = Check.raise(C, {n:"101"})
   expect(o.n).toBe(BigInt(101))
   expect(()=>{ Check.raise(C, {n:"xxx"})}).toThrow("n: Cannot convert xxx to a BigInt")
+  expect(Check.stringify(C, o)).toBe('{"n":"101"}')
+  expect(Check.toJsonSchema(C).properties).toStrictEqual({ n:{} })
 })
 
 test("collection type resolution", () => {
@@ -473,3 +602,1695 @@ test("extensions", () => {
   expect(o.n).toBe(200)
   expect(o.plus1).toBe(201)
 })
+
+describe("stringify", () => {
+  class E extends Check.define({ n:{ v:1 }}) {}
+  const define = () => Check.define({
+    s:{ v:"" },
+    b:{ v:BigInt(0) },
+    set:{ v:new Set([0]) },
+    a:{ v:[Check.sample(E)] },
+    o:{ v:Check.sample(E), required:false },
+    opt:{ v:"", required:false },
+  })
+  test("encodes with registered types", () => {
+    const C = define()
+    const c = Check.raise(C, { s:"x", b:"12", set:new Set([1, 2]), a:[new E({n:3})] })
+    expect(Check.stringify(C, c)).toBe(`{"s":"x","b":"12","set":[1,2],"a":[{"n":3}]}`)
+  })
+  test("round trip", () => {
+    const C = define()
+    const c = Check.raise(C, { s:"x", b:"12", set:new Set([1, 2]), a:[new E({n:3})], o:new E({n:4}), opt:"y" })
+    const json = Check.stringify(C, c)
+    const c2 = Check.parse(C, json)
+    expect(c2).toStrictEqual(c)
+    expect(Check.stringify(C, c2)).toBe(json)
+  })
+  test("arrays", () => {
+    const json = Check.stringifyArray(E, [new E({n:1}), new E({n:2})])
+    expect(json).toBe(`[{"n":1},{"n":2}]`)
+    expect(Check.parseArray(E, json)).toStrictEqual([new E({n:1}), new E({n:2})])
+  })
+  test("types without encode", () => {
+    class W { constructor(readonly w:string) {} }
+    Check.addType({
+      name:"wrapper",
+      priority:600_000_000,
+      appliesTo:(v:unknown) => v instanceof W,
+      defaultTo:(sample:W) => sample,
+      mismatch:(json:unknown) => json instanceof W,
+      parse:(prefix:string, sample:W, json:unknown) => ({ success:true, result:new W(json as string) }),
+    })
+    class D extends Check.define({ w:{ v:new W("") }}) {}
+    expect(Check.stringify(D, new D({ w:new W("x") }))).toBe(`{"w":{"w":"x"}}`)
+  })
+})
+
+describe("toJsonSchema", () => {
+  test("properties", () => {
+    class C extends Check.define({
+      n:{ v:1, min:1, max:10 },
+      r:{ v:1.5, integer:false, required:false },
+      s:{ v:"a", min:1, max:5, regex:/^[a-z]+$/, readonly:true },
+      e:{ v:"x", allowed:["x", "y"], required:"default" },
+      b:{ v:true },
+      a:{ v:[""], min:1, max:3 },
+      set:{ v:new Set([0]), max:2 },
+    }) {}
+    expect(Check.toJsonSchema(C)).toStrictEqual({
+      $schema:"https://json-schema.org/draft/2020-12/schema",
+      type:"object",
+      properties:{
+        n:{ type:"integer", minimum:1, maximum:10 },
+        r:{ type:"number" },
+        s:{ type:"string", minLength:1, maxLength:5, pattern:"^[a-z]+$", readOnly:true },
+        e:{ type:"string", enum:["x", "y"], default:"x" },
+        b:{ type:"boolean" },
+        a:{ type:"array", items:{ type:"string" }, minItems:1, maxItems:3 },
+        set:{ type:"array", items:{ type:"number" }, maxItems:2 },
+      },
+      required:["n", "s", "b", "a", "set"],
+    })
+  })
+  test("nested classes", () => {
+    class E extends Check.define({ n:{ v:1 }}) {}
+    class C extends Check.define({
+      o:{ v:Check.sample(E) },
+      a:{ v:[Check.sample(E)] },
+    }) {}
+    expect(Check.toJsonSchema(C)).toStrictEqual({
+      $schema:"https://json-schema.org/draft/2020-12/schema",
+      type:"object",
+      properties:{
+        o:{ $ref:"#/$defs/E" },
+        a:{ type:"array", items:{ $ref:"#/$defs/E" } },
+      },
+      required:["o", "a"],
+      $defs:{
+        E:{ type:"object", properties:{ n:{ type:"integer" }}, required:["n"] },
+      },
+    })
+  })
+  test("recursive classes", () => {
+    class Foo extends Check.define({
+      bar:{ v:null as unknown as Base, required:false },
+    }) {}
+    class Bar extends Check.define({
+      foo:{ v:Check.sample(Foo), required:false },
+      bars:{ v:[] as Base[] },
+    }) {}
+    Check.recurse(Foo, "bar", Check.sample(Bar))
+    Check.recurse(Bar, "bars", [Check.sample(Bar)])
+    expect(Check.toJsonSchema(Foo)).toStrictEqual({
+      $schema:"https://json-schema.org/draft/2020-12/schema",
+      type:"object",
+      properties:{ bar:{ $ref:"#/$defs/Bar" }},
+      required:[],
+      $defs:{
+        Bar:{
+          type:"object",
+          properties:{
+            foo:{ $ref:"#" },
+            bars:{ type:"array", items:{ $ref:"#/$defs/Bar" }},
+          },
+          required:["bars"],
+        },
+      },
+    })
+  })
+  test("name collisions and unknown types", () => {
+    const E1 = Check.define({ n:{ v:1 }})
+    const E2 = Check.define({ b:{ v:BigInt(1) }, u:{ v:undefined as unknown, required:false }})
+    const C = Check.define({ e1:{ v:Check.sample(E1) }, e2:{ v:Check.sample(E2) }})
+    const schema = Check.toJsonSchema(C)
+    const defs = schema.$defs as Record<string,unknown>
+    expect(Object.keys(defs)).toStrictEqual(["Object", "Object2"])
+    expect(defs.Object2).toStrictEqual({ type:"object", properties:{ b:{ type:"string", pattern:"^-?[0-9]+$" }, u:{} }, required:["b"] })
+  })
+  test("names", () => {
+    const E = Check.define({ n:{ v:1 }}, { name:"Entry" })
+    expect(E.name).toBe("Entry")
+    class F extends E {}
+    const C = Check.define({ e:{ v:Check.sample(E) }, f:{ v:Check.sample(F) }, g:{ v:Check.sample(Check.pick(E, ["n"])) }})
+    expect(Object.keys(Check.toJsonSchema(C).$defs as object)).toStrictEqual(["Entry", "F", "Object"])
+  })
+})
+
+describe("fromJsonSchema", () => {
+  test("properties", () => {
+    const C = Check.fromJsonSchema({
+      $schema:"https://json-schema.org/draft/2020-12/schema",
+      title:"C",
+      type:"object",
+      properties:{
+        n:{ type:"integer", minimum:1, maximum:10 },
+        r:{ type:"number" },
+        s:{ type:"string", minLength:1, maxLength:5, pattern:"^[a-z]+$" },
+        e:{ type:"string", enum:["x", "y"] },
+        d:{ type:"string", default:"dflt", readOnly:true },
+        b:{ type:"boolean" },
+        a:{ type:"array", items:{ type:"string" }, minItems:1, maxItems:2 },
+        ad:{ type:"array", items:{ type:"string" }, default:[] },
+      },
+      required:["n", "s", "e", "b", "a"],
+    })
+    const o = Check.raise(C, { n:1, s:"abc", e:"y", b:true, a:["q"] })
+    expect(o).toMatchObject({ n:1, s:"abc", e:"y", d:"dflt", b:true, a:["q"], ad:[] })
+    expect(o.r).toBeUndefined()
+    expect(Check.raise(C, { n:1, s:"abc", e:"y", b:true, a:["q"], r:1.5 }).r).toBe(1.5)
+    expect(() => { Check.raise(C, { n:0, s:"abc", e:"x", b:true, a:["q"] })}).toThrow("n: value of 0 < minimum value of 1")
+    expect(() => { Check.raise(C, { n:11, s:"abc", e:"x", b:true, a:["q"] })}).toThrow("n: value of 11 > maximum value of 10")
+    expect(() => { Check.raise(C, { n:1.5, s:"abc", e:"x", b:true, a:["q"] })}).toThrow("n: value of 1.5 is not a safe integer")
+    expect(() => { Check.raise(C, { n:1, s:"", e:"x", b:true, a:["q"] })}).toThrow("s: length of 0 < minimum length of 1")
+    expect(() => { Check.raise(C, { n:1, s:"abcdef", e:"x", b:true, a:["q"] })}).toThrow("s: length of 6 > maximum length of 5")
+    expect(() => { Check.raise(C, { n:1, s:"ABC", e:"x", b:true, a:["q"] })}).toThrow("s: invalid value: ABC - must match /^[a-z]+$/")
+    expect(() => { Check.raise(C, { n:1, s:"abc", e:"z", b:true, a:["q"] })}).toThrow("e: invalid value: z - valid values are: x,y")
+    expect(() => { Check.raise(C, { n:1, s:"abc", e:"x", a:["q"] })}).toThrow("b: missing required property")
+    expect(() => { Check.raise(C, { n:1, s:"abc", e:"x", b:true, a:[] })}).toThrow("a: length of 0 < minimum length of 1")
+    expect(() => { Check.raise(C, { n:1, s:"abc", e:"x", b:true, a:["q", "r", "s"] })}).toThrow("a: length of 3 > maximum length of 2")
+    expect(() => { Check.raise(C, { n:1, s:"abc", e:"x", b:true, a:[1] })}).toThrow("a[0]: expected string but got number")
+  })
+  test("nested objects and references", () => {
+    const C = Check.fromJsonSchema({
+      type:"object",
+      properties:{
+        o:{ type:"object", properties:{ s:{ type:"string" }}, required:["s"] },
+        e1:{ $ref:"#/$defs/E" },
+        e2:{ type:"array", items:{ $ref:"#/$defs/E" }},
+        name:{ $ref:"#/$defs/Name" },
+        tags:{ type:"array", items:{ $ref:"#/$defs/Tag" }},
+      },
+      required:["o", "e1", "e2", "name"],
+      $defs:{
+        E:{ type:"object", properties:{ n:{ type:"integer", minimum:1 }}, required:["n"] },
+        Name:{ type:"string", minLength:2 },
+        Tag:{ type:"string" },
+      },
+    })
+    const o = Check.raise(C, { o:{ s:"x" }, e1:{ n:1 }, e2:[{ n:2 }], name:"ab" })
+    expect(o.e2[0].constructor).toBe(o.e1.constructor)
+    expect(Check.raise(C, { o:{ s:"x" }, e1:{ n:1 }, e2:[], name:"ab", tags:["t"] }).tags).toStrictEqual(["t"])
+    expect(() => { Check.raise(C, { o:{}, e1:{ n:1 }, e2:[], name:"ab" })}).toThrow("o.s: missing required property")
+    expect(() => { Check.raise(C, { o:{ s:"x" }, e1:{ n:1 }, e2:[{ n:0 }], name:"ab" })}).toThrow("e2[0].n: value of 0 < minimum value of 1")
+    expect(() => { Check.raise(C, { o:{ s:"x" }, e1:{ n:1 }, e2:[], name:"a" })}).toThrow("name: length of 1 < minimum length of 2")
+  })
+  test("recursive references", () => {
+    const Tree = Check.fromJsonSchema({
+      type:"object",
+      properties:{
+        n:{ type:"integer" },
+        children:{ type:"array", items:{ $ref:"#" }},
+        parent:{ $ref:"#/$defs/Parent" },
+      },
+      required:["n", "children"],
+      $defs:{
+        Parent:{ type:"object", properties:{ tree:{ $ref:"#" }, up:{ $ref:"#/$defs/Parent" }}},
+      },
+    })
+    const t = Check.raise(Tree, { n:1, children:[{ n:2, children:[] }], parent:{ tree:{ n:3, children:[] }, up:{}}})
+    expect(t.children[0].n).toBe(2)
+    expect(t.children[0]).toBeInstanceOf(Tree)
+    expect(t.parent.tree.n).toBe(3)
+    expect(() => { Check.raise(Tree, { n:1, children:[{ n:2, children:[{}] }]})}).toThrow("children[0].children[0].n: missing required property")
+  })
+  test("round trip", () => {
+    class E extends Check.define({ n:{ v:1, min:1 }}) {}
+    class C extends Check.define({
+      s:{ v:"a", regex:/^a/, max:4 },
+      e:{ v:[Check.sample(E)] },
+    }) {}
+    const c = Check.toJsonSchema(C)
+    const d = Check.toJsonSchema(Check.fromJsonSchema(c))
+    expect((d.properties as any).s).toStrictEqual((c.properties as any).s)
+    expect(d.$defs).toStrictEqual(c.$defs)
+    const named = Check.fromJsonSchema({ type:"object", properties:{ a:{ $ref:"#/$defs/A~1b" }}, $defs:{ "A/b":{ type:"object", properties:{}}}})
+    expect(Object.keys(Check.toJsonSchema(named).$defs as object)).toStrictEqual(["A/b"])
+  })
+  test("unsupported keywords", () => {
+    try {
+      Check.fromJsonSchema({
+        type:"object",
+        additionalProperties:false,
+        properties:{
+          a:{ type:"array" },
+          b:{ type:["string", "null"] },
+          c:{ type:"array", items:{ type:"string", minLength:1 }},
+          d:{ $ref:"#/$defs/Missing" },
+          e:{ $ref:"http://example.com/schema" },
+          f:{ type:"object", default:{ x:1 }},
+          g:{ type:"string", pattern:"(" },
+          h:{ oneOf:[{ type:"string" }] },
+          i:{ $ref:"#/$defs/List" },
+          j:{ type:"string", minimum:3, minItems:2 },
+          k:{ type:"integer", maxLength:1, pattern:"^1$" },
+          l:{ type:"object", minimum:1 },
+          m:{ type:"string", enum:[1, 2] },
+        },
+        $defs:{
+          List:{ type:"array", items:{ $ref:"#/$defs/List" }},
+        },
+      })
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(CheckError)
+      const ce = e as CheckError
+      expect(ce.code).toBe("SCHEMA")
+      expect(ce.fails.map(x => x.prefix + ": " + x.message)).toStrictEqual([
+        "#/additionalProperties: unsupported keyword additionalProperties",
+        "#/properties/a: array without items",
+        `#/properties/b/type: unsupported type ["string","null"]`,
+        "#/properties/c/items/minLength: unsupported keyword minLength",
+        "#/properties/d/$ref: unresolved reference #/$defs/Missing",
+        "#/properties/e/$ref: unresolved reference http://example.com/schema",
+        "#/properties/f/default: unsupported non-empty default for object",
+        "#/properties/g/pattern: Invalid regular expression: /(/: Unterminated group",
+        "#/properties/h/oneOf: unsupported keyword oneOf",
+        "#/properties/h/type: unsupported type undefined",
+        "#/$defs/List/items/$ref: unsupported recursive reference #/$defs/List",
+        "#/properties/j/minimum: unsupported keyword minimum for string",
+        "#/properties/j/minItems: unsupported keyword minItems for string",
+        "#/properties/k/maxLength: unsupported keyword maxLength for number",
+        "#/properties/k/pattern: unsupported keyword pattern for number",
+        "#/properties/l/minimum: unsupported keyword minimum for object",
+        "#/properties/m/enum: enum value 1 is not a string",
+      ])
+    }
+  })
+  test("root must be an object", () => {
+    expect(() => { Check.fromJsonSchema({ type:"string" })}).toThrow(`#/type: expected object type but got "string"`)
+  })
+})
+
+describe("streaming", () => {
+  class C extends Check.define({ n:{ v:0, min:0 }, s:{ v:"", required:false }}) {}
+  async function* chunked(text:string, size:number) {
+    for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size)
+  }
+  const bytes = (text:string, size:number) => {
+    const data = new TextEncoder().encode(text)
+    let i = 0
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (i >= data.length) controller.close()
+        else controller.enqueue(data.slice(i, i += size))
+      }
+    })
+  }
+  const json = ` [ {"n":11, "s":"a,]}\\"["}, {"n":22,"s":"é"} ,{"n":33} ] `
+  test("async iterables", async () => {
+    for (const size of [1, 3, 1000]) {
+      const result:C[] = []
+      await Check.parseCollectionStream(C, chunked(json, size), x => { result.push(x) })
+      expect(result.map(x => x.n)).toStrictEqual([11, 22, 33])
+      expect(result[0]!.s).toBe(`a,]}"[`)
+      expect(result[0]).toBeInstanceOf(C)
+    }
+  })
+  test("readable streams", async () => {
+    for (const size of [1, 2, 1000]) {
+      const result:C[] = []
+      for await (const x of Check.streamCollection(C, bytes(json, size))) result.push(x)
+      expect(result.map(x => x.n)).toStrictEqual([11, 22, 33])
+      expect(result[1]!.s).toBe("é")
+    }
+  })
+  test("empty", async () => {
+    const result:C[] = []
+    await Check.parseCollectionStream(C, chunked("[ ]", 1), x => { result.push(x) })
+    expect(result).toHaveLength(0)
+  })
+  test("element failures", async () => {
+    const result:C[] = []
+    const p = Check.parseCollectionStream(C, chunked(`[{"n":1},{"n":-1}]`, 4), x => { result.push(x) })
+    await expect(p).rejects.toThrow("[1].n: value of -1 < minimum value of 0")
+    expect(result).toHaveLength(1)
+  })
+  test("malformed input", async () => {
+    const parse = (text:string) => Check.parseCollectionStream(C, chunked(text, 2), () => {})
+    await expect(parse(`{"n":1}`)).rejects.toThrow("expected input array but got object")
+    await expect(parse(`"x"`)).rejects.toThrow("expected input array but got string")
+    await expect(parse(`true`)).rejects.toThrow("expected input array but got boolean")
+    await expect(parse(`1`)).rejects.toThrow("expected input array but got number")
+    await expect(parse(`null`)).rejects.toThrow("expected input array but got object")
+    await expect(parse(`[{"n":1}`)).rejects.toThrow("unexpected end of input array")
+    await expect(parse(`[{"n":1}] x`)).rejects.toThrow("unexpected data after end of input array")
+    await expect(parse(`[{"n":1},]`)).rejects.toThrow("missing array element")
+    await expect(parse(`[,{"n":1}]`)).rejects.toThrow("missing array element")
+    await expect(parse(`[{"n":1}}]`)).rejects.toThrow(SyntaxError)
+    const truncated = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("[]"))
+        controller.enqueue(Uint8Array.of(0xc3))
+        controller.close()
+      }
+    })
+    await expect(Check.parseCollectionStream(C, truncated, () => {})).rejects.toThrow("unexpected data after end of input array")
+  })
+})
+
+describe("lines", () => {
+  class C extends Check.define({ n:{ v:0, min:0 }, s:{ v:"", required:false }}) {}
+  async function* chunked(text:string, size:number) {
+    for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size)
+  }
+  const text = `{"n":1}\r\n\n{"n":2,"s":"x"}\n{"n":3}`
+  test("parse text", async () => {
+    const result:C[] = []
+    await Check.parseLines(C, text, x => { result.push(x) })
+    expect(result.map(x => x.n)).toStrictEqual([1, 2, 3])
+    expect(result[1]!.s).toBe("x")
+  })
+  test("parse streams", async () => {
+    const result:C[] = []
+    await Check.parseLines(C, chunked(text + "\n", 3), x => { result.push(x) })
+    expect(result.map(x => x.n)).toStrictEqual([1, 2, 3])
+  })
+  test("failures", async () => {
+    const parse = (text:string) => Check.parseLines(C, text, () => {})
+    await expect(parse(`{"n":1}\n{"n":-1}`)).rejects.toThrow("line 2: n: value of -1 < minimum value of 0")
+    await expect(parse(`{"n":1}\n{"n":-1}`)).rejects.toMatchObject({ fails:[{ path:["line 2", "n"] }]})
+    await expect(parse(`{"n":1}\n\n{"n"`)).rejects.toThrow("line 3: ")
+    await expect(parse(`{"n":1}\n\n{"n"`)).rejects.toMatchObject({ code:"SYNTAX", prefix:"line 3" })
+  })
+  test("skipping", async () => {
+    Check.skipInvalidObjects(true)
+    const logs:string[] = []
+    Check.warnWith((msg:string) => logs.push(msg))
+    const result:C[] = []
+    await Check.parseLines(C, `{"n":-1}\n{"n":1}\n{}`, x => { result.push(x) })
+    expect(result.map(x => x.n)).toStrictEqual([1])
+    expect(logs).toStrictEqual([
+      "skipping line 1: n - value of -1 < minimum value of 0",
+      "skipping line 3: n - missing required property",
+    ])
+  })
+  test("stringify", async () => {
+    const objects = [new C({ n:1 }), new C({ n:2, s:"x" })]
+    const lines = Check.stringifyLines(C, objects)
+    expect(lines).toBe(`{"n":1}\n{"n":2,"s":"x"}\n`)
+    const result:C[] = []
+    await Check.parseLines(C, lines, x => { result.push(x) })
+    expect(result).toStrictEqual(objects)
+    const bad = new C({ n:1 })
+    bad.n = -1
+    expect(() => { Check.stringifyLines(C, [objects[0]!, bad]) }).toThrow("line 2: n: value of -1 < minimum value of 0")
+    delete (bad as any).n
+    expect(() => { Check.stringifyLines(C, [bad]) }).toThrow("line 1: n: missing required property")
+  })
+})
+
+describe("async checks", () => {
+  const taken = new Set(["bob"])
+  const sleep = (ms:number) => new Promise(resolve => setTimeout(resolve, ms))
+  const available = async (name:string) => {
+    await sleep(1)
+    if (taken.has(name)) return new Fail("", "TAKEN", `${name} is taken`)
+  }
+  class E extends Check.define({ name:{ v:"", customAsync:available }}) {}
+  class C extends Check.define({
+    name:{ v:"", min:1, customAsync:available },
+    o:{ v:Check.sample(E), required:false },
+    a:{ v:[Check.sample(E)], required:"default" },
+    set:{ v:new Set([""]), required:false },
+  }) {}
+  test("runAsync", async () => {
+    const good = await Check.runAsync(C, { name:"amy", a:[{ name:"cal" }] })
+    expect(good.success).toBe(true)
+    const bad = await Check.runAsync(C, { name:"amy", o:{ name:"bob" }})
+    expect(bad.success).toBe(false)
+    if (!bad.success) {
+      expect(bad.fail.prefix).toBe("o.name")
+      expect(bad.fail.code).toBe("TAKEN")
+    }
+    const sync = await Check.runAsync(C, { name:"" })
+    expect(sync.success).toBe(false)
+    if (!sync.success) expect(sync.fail.code).toBe("MIN")
+  })
+  test("raiseAsync and parseAsync", async () => {
+    const c = await Check.raiseAsync(C, { name:"amy", set:["x"] })
+    expect(c).toBeInstanceOf(C)
+    await expect(Check.raiseAsync(C, { name:"amy", a:[{ name:"cal" }, { name:"bob" }]})).rejects.toThrow("a[1].name: bob is taken")
+    expect((await Check.parseAsync(C, `{"name":"amy"}`)).name).toBe("amy")
+    await expect(Check.parseAsync(C, `{"name":"bob"}`)).rejects.toThrow("name: bob is taken")
+    await expect(Check.parseAsync(C, `{`)).rejects.toThrow(SyntaxError)
+  })
+  test("all fails", async () => {
+    Check.collectAllFails(true)
+    const r = await Check.runAsync(C, { name:"bob", o:{ name:"bob" }, a:[{ name:"amy" }, { name:"bob" }]})
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails.map(x => x.prefix)).toStrictEqual(["name", "o.name", "a[1].name"])
+    }
+  })
+  test("concurrency", async () => {
+    let running = 0
+    let peak = 0
+    const slow = async () => {
+      running++
+      peak = Math.max(peak, running)
+      await sleep(2)
+      running--
+      return undefined
+    }
+    class S extends Check.define({ a:{ v:[""] }, b:{ v:"", customAsync:slow }}) {}
+    class P extends Check.define({ s:{ v:[Check.sample(S)] }}) {}
+    const input = { s:[1, 2, 3, 4, 5].map(() => ({ a:[], b:"" })) }
+    expect((await Check.runAsync(P, input, { concurrency:2 })).success).toBe(true)
+    expect(peak).toBe(2)
+    peak = 0
+    expect((await Check.runAsync(P, input)).success).toBe(true)
+    expect(peak).toBe(5)
+    peak = 0
+    expect((await Check.runAsync(P, input, { concurrency:0 })).success).toBe(true)
+    expect(peak).toBe(1)
+  })
+  test("timeouts and errors", async () => {
+    class T extends Check.define({
+      slow:{ v:"", customAsync:async () => { await sleep(50); return undefined }},
+      broken:{ v:"", customAsync:async () => { throw new Error("boom") }},
+      thrown:{ v:"", customAsync:() => { throw "nope" }},
+    }) {}
+    Check.collectAllFails(true)
+    const r = await Check.runAsync(T, { slow:"", broken:"", thrown:"" }, { timeout:5 })
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails.map(x => x.prefix + ": " + x.code + ": " + x.message)).toStrictEqual([
+        "slow: TIMEOUT: check timed out after 5ms",
+        "broken: UNKNOWN: boom",
+        "thrown: UNKNOWN: unknown error",
+      ])
+    }
+  })
+})
+
+describe("object checks", () => {
+  class Range extends Check.define({
+    start:{ v:0 },
+    end:{ v:0 },
+  }, {
+    checks:[
+      o => o.end < o.start ? new Fail("end", "ORDER", "end must not be before start") : undefined,
+      o => o.end - o.start > 100 ? new Fail("", "SPAN", "range is too long") : undefined,
+    ]
+  }) {}
+  class C extends Check.define({
+    r:{ v:Check.sample(Range) },
+    a:{ v:[Check.sample(Range)], required:"default" },
+  }) {}
+  test("top level", () => {
+    expect(new Range({ start:1, end:2 }).end).toBe(2)
+    expect(() => { new Range({ start:2, end:1 })}).toThrow("end: end must not be before start")
+    const r = Check.run(Range, { start:0, end:200 })
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fail.prefix).toBe("")
+      expect(r.fail.code).toBe("SPAN")
+    }
+  })
+  test("throwing checks", () => {
+    class S extends Check.define({ s:{ v:"", required:false }}, {
+      checks:[o => o.s!.length > 3 ? undefined : new Fail("s", "SHORT", "too short"), () => { throw "oops" }],
+    }) {}
+    class Box extends Check.define({ s:{ v:Check.sample(S) }}) {}
+    const r = Check.run(Box, { s:{}})
+    expect(r.success ? [] : [r.fail.prefix, r.fail.code, r.fail.message]).toStrictEqual(["s", "UNKNOWN", "Cannot read properties of undefined (reading 'length')"])
+    const all = Check.run(S, { s:"abcd" }, { collectAllFails:true })
+    expect(all.success ? [] : [all.fail.prefix, all.fail.code, all.fail.message]).toStrictEqual(["", "UNKNOWN", "unknown error"])
+  })
+  test("property checks run first", () => {
+    expect(() => { Check.raise(Range, { start:2 })}).toThrow("end: missing required property")
+  })
+  test("nested objects and arrays", () => {
+    expect(() => { Check.raise(C, { r:{ start:2, end:1 }})}).toThrow("r.end: end must not be before start")
+    expect(() => { Check.raise(C, { r:{ start:0, end:1 }, a:[{ start:0, end:1 }, { start:0, end:101 }]})}).toThrow("a[1]: range is too long")
+  })
+  test("all fails", () => {
+    Check.collectAllFails(true)
+    const r = Check.run(C, { r:{ start:300, end:0 }, a:[{ start:0, end:101 }]})
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails.map(x => x.prefix + " " + x.code)).toStrictEqual(["r.end ORDER", "a[0] SPAN"])
+    }
+  })
+  test("subclass samples", () => {
+    class Sub extends Range {}
+    class D extends Check.define({ s:{ v:Check.sample(Sub) }}) {}
+    expect(() => { Check.raise(D, { s:{ start:2, end:1 }})}).toThrow("s.end: end must not be before start")
+  })
+  test("stringifyLines", () => {
+    const r = new Range({ start:0, end:1 })
+    r.end = 500
+    expect(() => { Check.stringifyLines(Range, [r]) }).toThrow("line 1: range is too long")
+  })
+})
+
+describe("unions", () => {
+  class Circle extends Check.define({ kind:{ v:"circle", allowed:["circle"] }, r:{ v:1, min:1 }}) {
+    get area() { return 3 * this.r * this.r }
+  }
+  class Square extends Check.define({ kind:{ v:"square", allowed:["square"] }, side:{ v:1, min:1 }}) {
+    get area() { return this.side * this.side }
+  }
+  class C extends Check.define({
+    shape:{ v:Check.union([Circle, Square], "kind") },
+    shapes:{ v:[Check.union([Circle, Square], "kind")], required:"default" },
+  }) {}
+  test("discriminator", () => {
+    const c = Check.raise(C, { shape:{ kind:"square", side:2 }, shapes:[{ kind:"circle", r:1 }, { kind:"square", side:3 }]})
+    expect(c.shape).toBeInstanceOf(Square)
+    expect(c.shape.area).toBe(4)
+    expect(c.shapes[0]).toBeInstanceOf(Circle)
+    expect(c.shapes.map(x => x.area)).toStrictEqual([3, 9])
+    const shape:Circle|Square = c.shape
+    if (shape instanceof Circle) expect.unreachable()
+    else expect(shape.side).toBe(2)
+    expect(new C({ shape:new Circle({ kind:"circle", r:2 })}).shape.area).toBe(12)
+  })
+  test("discriminator failures", () => {
+    expect(() => { Check.raise(C, { shape:{ kind:"square", r:2 }})}).toThrow("shape.side: missing required property")
+    expect(() => { Check.raise(C, { shape:{ r:2 }})}).toThrow("shape.kind: missing required property")
+    expect(() => { Check.raise(C, { shape:{ kind:"oval" }})}).toThrow("shape.kind: invalid value: oval - valid values are: circle,square")
+    expect(() => { Check.raise(C, { shape:"circle" })}).toThrow("shape: expected object but got string")
+    expect(() => { Check.raise(C, { shape:{ kind:"circle", r:1 }, shapes:[{ kind:"circle", r:0 }]})}).toThrow("shapes[0].r: value of 0 < minimum value of 1")
+  })
+  test("skipping elements", () => {
+    Check.skipInvalidObjects(true)
+    const logs:string[] = []
+    Check.warnWith((msg:string) => logs.push(msg))
+    const c = Check.raise(C, { shape:{ kind:"circle", r:1 }, shapes:[{ kind:"oval" }, { kind:"circle", r:1 }]})
+    expect(c.shapes).toHaveLength(1)
+    expect(logs).toStrictEqual(["skipping element shapes[0].kind - invalid value: oval - valid values are: circle,square"])
+  })
+  test("trying in order", () => {
+    class D extends Check.define({ shape:{ v:Check.union([Circle, Square]) }}) {}
+    expect(Check.raise(D, { shape:{ kind:"square", side:2 }}).shape).toBeInstanceOf(Square)
+    expect(() => { Check.raise(D, { shape:{ kind:"square" }})}).toThrow(
+      "shape: no variant matched: variant 0 (shape.kind: invalid value: square - valid values are: circle), variant 1 (shape.side: missing required property)"
+    )
+    class E extends Check.define({ shape:{ v:Check.union([Check.define({ r:{ v:1 }}), Check.define({ side:{ v:1 }})]) }}) {}
+    expect(() => { Check.raise(E, { shape:{}})}).toThrow(
+      "shape: no variant matched: variant 0 (shape.r: missing required property), variant 1 (shape.side: missing required property)"
+    )
+  })
+  test("defaults, serializing and schemas", () => {
+    class D extends Check.define({ shape:{ v:Check.union([Circle, Square], "kind"), required:"default" }}) {}
+    const d = Check.raise(D, {})
+    expect(d.shape).toBeInstanceOf(Circle)
+    const c = Check.raise(C, { shape:{ kind:"square", side:2 }, shapes:[{ kind:"circle", r:1 }]})
+    const json = Check.stringify(C, c)
+    expect(json).toBe(`{"shape":{"kind":"square","side":2},"shapes":[{"kind":"circle","r":1}]}`)
+    expect(Check.parse(C, json)).toStrictEqual(c)
+    const schema = Check.toJsonSchema(C)
+    expect((schema.properties as any).shape).toStrictEqual({ oneOf:[{ $ref:"#/$defs/Circle" }, { $ref:"#/$defs/Square" }]})
+    class E extends Check.define({ shape:{ v:Check.union([Circle, Square]) }}) {}
+    expect((Check.toJsonSchema(E).properties as any).shape).toStrictEqual({ anyOf:[{ $ref:"#/$defs/Circle" }, { $ref:"#/$defs/Square" }]})
+  })
+})
+
+describe("dictionaries", () => {
+  class E extends Check.define({ n:{ v:1, min:1 }}) {}
+  class C extends Check.define({
+    labels:{ v:Check.record("", { regex:/^[a-z]{2}$/ }), min:1, max:3 },
+    counts:{ v:Check.map(0), required:"default" },
+    es:{ v:Check.map(Check.sample(E)), required:false },
+  }) {}
+  test("records", () => {
+    const c = Check.raise(C, { labels:{ en:"Hello", fr:"Bonjour" }})
+    expect(c.labels).toStrictEqual({ en:"Hello", fr:"Bonjour" })
+    expect(c.counts).toBeInstanceOf(Map)
+    expect(c.counts.size).toBe(0)
+    expect(() => { Check.raise(C, { labels:{ en:1 }})}).toThrow(`labels["en"]: expected string but got number`)
+    expect(() => { Check.raise(C, { labels:{ EN:"Hello", FR:"" }})}).toThrow(`labels["EN"]: invalid value: EN - must match /^[a-z]{2}$/`)
+    expect(() => { Check.raise(C, { labels:{}})}).toThrow("labels: size of 0 < minimum size of 1")
+    expect(() => { Check.raise(C, { labels:{ aa:"", bb:"", cc:"", dd:"" }})}).toThrow("labels: size of 4 > maximum size of 3")
+    expect(() => { Check.raise(C, { labels:[] })}).toThrow("labels: expected object but got array")
+    class P extends Check.define({ p:{ v:Check.record("") }}) {}
+    const proto = Check.raise(P, { p:JSON.parse(`{"__proto__":"x"}`) }).p
+    expect(Object.getPrototypeOf(proto)).toBe(Object.prototype)
+    expect(Object.keys(proto)).toStrictEqual(["__proto__"])
+  })
+  test("maps", () => {
+    const c = Check.raise(C, { labels:{ en:"" }, counts:{ a:1, b:2 }, es:{ x:{ n:1 }}})
+    expect(c.counts).toStrictEqual(new Map([["a", 1], ["b", 2]]))
+    expect(c.es?.get("x")).toBeInstanceOf(E)
+    expect(() => { Check.raise(C, { labels:{ en:"" }, es:{ x:{ n:0 }}})}).toThrow(`es["x"].n: value of 0 < minimum value of 1`)
+    const d = new C({ labels:{ en:"" }, counts:new Map([["a", 1]]), es:new Map([["y", new E({ n:2 })]]) })
+    expect(d.counts.get("a")).toBe(1)
+    expect(() => { new C({ labels:{ en:"" }, counts:new Map([["a", "x"]]) as never })}).toThrow(`counts["a"]: expected number but got string`)
+  })
+  test("skipping and all fails", () => {
+    Check.skipInvalidObjects(true)
+    const logs:string[] = []
+    Check.warnWith((msg:string) => logs.push(msg))
+    const c = Check.raise(C, { labels:{ en:"" }, es:{ x:{ n:0 }, y:{ n:1 }}})
+    expect([...c.es!.keys()]).toStrictEqual(["y"])
+    expect(logs).toStrictEqual([`skipping entry es["x"].n - value of 0 < minimum value of 1`])
+    Check.collectAllFails(true)
+    const r = Check.run(C, { labels:{ en:1, XX:"", fr:"" }})
+    expect(r.success).toBe(false)
+    if (!r.success) expect(r.fails.map(x => x.prefix)).toStrictEqual([`labels["en"]`, `labels["XX"]`])
+  })
+  test("serializing and schemas", () => {
+    const c = Check.raise(C, { labels:{ en:"Hello" }, counts:{ a:1 }, es:{ x:{ n:2 }}})
+    const json = Check.stringify(C, c)
+    expect(json).toBe(`{"labels":{"en":"Hello"},"counts":{"a":1},"es":{"x":{"n":2}}}`)
+    expect(Check.parse(C, json)).toStrictEqual(c)
+    class K extends Check.define({ m:{ v:Check.record(0, { min:1, max:2, allowed:["a", "b"] }) }}) {}
+    expect(Check.toJsonSchema(C).properties).toStrictEqual({
+      labels:{ type:"object", additionalProperties:{ type:"string" }, propertyNames:{ pattern:"^[a-z]{2}$" }, minProperties:1, maxProperties:3 },
+      counts:{ type:"object", additionalProperties:{ type:"number" }, default:{} },
+      es:{ type:"object", additionalProperties:{ $ref:"#/$defs/E" }},
+    })
+    expect((Check.toJsonSchema(K).properties as any).m.propertyNames).toStrictEqual({ minLength:1, maxLength:2, enum:["a", "b"] })
+  })
+  test("async checks", async () => {
+    class A extends Check.define({ s:{ v:"", customAsync:async (s:string) => s === "" ? new Fail("", "EMPTY", "empty") : undefined }}) {}
+    class D extends Check.define({ m:{ v:Check.record(Check.sample(A)) }}) {}
+    await expect(Check.raiseAsync(D, { m:{ k:{ s:"" }}})).rejects.toThrow(`m["k"].s: empty`)
+  })
+})
+
+
+describe("tuples", () => {
+  class E extends Check.define({ n:{ v:1, min:1 }}) {}
+  class C extends Check.define({
+    coords:{ v:Check.tuple({ v:0, min:-90, max:90, integer:false }, { v:0, min:-180, max:180, integer:false }) },
+    row:{ v:Check.tuple({ v:"" }, { v:Check.sample(E) }, { v:true, required:"default" }, { v:"", required:false }), required:false },
+  }) {}
+  test("positions", () => {
+    const c = Check.raise(C, { coords:[45.5, -120.25], row:["a", { n:2 }] })
+    const coords:[number, number] = c.coords
+    expect(coords).toStrictEqual([45.5, -120.25])
+    const row:[string, E, boolean, string?] = c.row!
+    expect(row[1]).toBeInstanceOf(E)
+    expect(row).toStrictEqual(["a", new E({ n:2 }), true])
+    expect(Check.raise(C, { coords:[0, 0], row:["a", { n:2 }, false, "z"] }).row).toStrictEqual(["a", new E({ n:2 }), false, "z"])
+  })
+  test("failures", () => {
+    expect(() => { Check.raise(C, { coords:[0, 200] })}).toThrow("coords[1]: value of 200 > maximum value of 180")
+    expect(() => { Check.raise(C, { coords:[0, "0"] })}).toThrow("coords[1]: expected number but got string")
+    expect(() => { Check.raise(C, { coords:[0] })}).toThrow("coords: length of 1 < minimum length of 2")
+    expect(() => { Check.raise(C, { coords:[0, 0, 0] })}).toThrow("coords: length of 3 > maximum length of 2")
+    expect(() => { Check.raise(C, { coords:{} })}).toThrow("coords: expected array but got object")
+    expect(() => { Check.raise(C, { coords:[0, 0], row:["a", { n:0 }] })}).toThrow("row[1].n: value of 0 < minimum value of 1")
+    Check.collectAllFails(true)
+    const r = Check.run(C, { coords:[100, 200] })
+    expect(r.success).toBe(false)
+    if (!r.success) expect(r.fails.map(x => x.prefix)).toStrictEqual(["coords[0]", "coords[1]"])
+  })
+  test("optional elements must be trailing", () => {
+    expect(() => { Check.tuple({ v:0, required:false }, { v:0 }) }).toThrow("tuple element [1] can't follow an optional one")
+    expect(() => { Check.tuple({ v:0, required:false }, { v:0, required:"default" }) }).toThrow("tuple element [1] can't follow an optional one")
+    expect(() => { Check.tuple({ v:0, required:"default" }, { v:0, required:true }) }).toThrow("tuple element [1] can't follow an optional one")
+  })
+  test("defaults, serializing and schemas", () => {
+    class D extends Check.define({ t:{ v:Check.tuple({ v:"x" }, { v:new Date(0) }, { v:0, required:false }), required:"default" }}) {}
+    expect(Check.raise(D, {}).t).toStrictEqual(["x", new Date(0)])
+    const d = Check.raise(D, { t:["y", "2020-01-01", 3] })
+    expect(Check.stringify(D, d)).toBe(`{"t":["y","2020-01-01T00:00:00.000Z",3]}`)
+    expect(Check.parse(D, Check.stringify(D, d))).toStrictEqual(d)
+    expect((Check.toJsonSchema(C).properties as any).coords).toStrictEqual({
+      type:"array",
+      prefixItems:[{ type:"number", minimum:-90, maximum:90 }, { type:"number", minimum:-180, maximum:180 }],
+      items:false,
+      minItems:2,
+      maxItems:2,
+    })
+  })
+})
+
+describe("unknown properties", () => {
+  class E extends Check.define({ n:{ v:1 }}) {}
+  class C extends Check.define({ e:{ v:Check.sample(E) }, a:{ v:[Check.sample(E)] }}) {}
+  const input = { e:{ n:1, x:1 }, a:[{ n:2 }, { n:3, y:"y" }], z:true }
+  test("stripped by default", () => {
+    const c = Check.raise(C, input)
+    expect(Object.keys(c)).toStrictEqual(["e", "a"])
+    expect(Object.keys(c.e)).toStrictEqual(["n"])
+    expect(Check.extras(c)).toBeUndefined()
+  })
+  test("rejected per call", () => {
+    expect(() => { Check.raise(C, input, { unknown:"reject" }) }).toThrow("e.x: unexpected property")
+    expect(() => { Check.parse(C, JSON.stringify(input), { unknown:"reject" }) }).toThrow("e.x: unexpected property")
+    Check.collectAllFails(true)
+    const r = Check.run(C, input, { unknown:"reject" })
+    expect(r.success).toBe(false)
+    if (!r.success) {
+      expect(r.fails.map(x => x.prefix + " " + x.code)).toStrictEqual(["e.x UNEXPECTED", "a[1].y UNEXPECTED", "z UNEXPECTED"])
+    }
+    expect(Check.run(C, input).success).toBe(true)
+    expect(Check.run(E, null as never, { unknown:"reject" }).success).toBe(false)
+  })
+  test("kept per call", () => {
+    const c = Check.raise(C, input, { unknown:"keep" })
+    expect(Check.extras(c)).toStrictEqual({ z:true })
+    expect(Check.extras(c.e)).toStrictEqual({ x:1 })
+    expect(Check.extras(c.a[0]!)).toStrictEqual({})
+    expect(Check.extras(c.a[1]!)).toStrictEqual({ y:"y" })
+    expect(Object.keys(c)).toStrictEqual(["e", "a"])
+    expect(Check.stringify(C, c)).toBe(`{"e":{"n":1,"x":1},"a":[{"n":2},{"n":3,"y":"y"}],"z":true}`)
+  })
+  test("per class", () => {
+    class S extends Check.define({ n:{ v:1 }}, { unknown:"reject" }) {}
+    class K extends Check.define({ s:{ v:Check.sample(S) }}, { unknown:"keep" }) {}
+    expect(() => { new S({ n:1, x:1 } as never) }).toThrow("x: unexpected property")
+    expect(() => { Check.raise(K, { s:{ n:1, x:1 }}) }).toThrow("s.x: unexpected property")
+    expect(Check.extras(Check.raise(K, { s:{ n:1 }, y:2 }))).toStrictEqual({ y:2 })
+    expect(Check.raise(K, { s:{ n:1, x:1 }}, { unknown:"strip" }).s.n).toBe(1)
+  })
+  test("async", async () => {
+    await expect(Check.raiseAsync(C, input, { unknown:"reject" })).rejects.toThrow("e.x: unexpected property")
+  })
+  test("inherited names", () => {
+    class S extends Check.define({ a:{ v:"" }}) {}
+    const json = JSON.parse(`{"a":"x","constructor":1,"toString":2,"__proto__":{"p":3}}`)
+    const r = Check.run(S, json, { unknown:"reject" })
+    expect(r.success ? [] : r.fails.map(x => x.prefix)).toStrictEqual(["constructor"])
+    expect(Check.run(S, json, { unknown:"reject", collectAllFails:true }).success).toBe(false)
+    expect(Check.compile(S)(json, { unknown:"reject" }).success).toBe(false)
+    const kept = Check.extras(Check.raise(S, json, { unknown:"keep" }))!
+    expect(Object.keys(kept)).toStrictEqual(["constructor", "toString", "__proto__"])
+    expect(Object.getPrototypeOf(kept)).toBe(Object.prototype)
+    const compiled = Check.compile(S)(json, { unknown:"keep" })
+    expect(compiled.success && Object.keys(Check.extras(compiled.result)!)).toStrictEqual(["constructor", "toString", "__proto__"])
+  })
+})
+
+describe("composition", () => {
+  class Address extends Check.define({ city:{ v:"", min:1 }}) {}
+  class User extends Check.define({
+    id:{ v:1, min:1 },
+    name:{ v:"", min:1 },
+    email:{ v:"", regex:/@/, required:false },
+    address:{ v:Check.sample(Address) },
+  }, {
+    checks:[o => o.name === "root" ? new Fail("name", "RESERVED", "reserved name") : undefined],
+    unknown:"reject",
+  }) {}
+  test("extend", () => {
+    class Admin extends Check.extend(User, { level:{ v:1, max:3 }, email:{ v:"", regex:/@/ }}) {}
+    const a = Check.raise(Admin, { id:1, name:"a", email:"a@b", address:{ city:"x" }, level:2 })
+    const level:number = a.level
+    const email:string = a.email
+    expect([level, email]).toStrictEqual([2, "a@b"])
+    expect(a.address).toBeInstanceOf(Address)
+    expect(() => { Check.raise(Admin, { id:1, name:"a", address:{ city:"x" }, level:2 })}).toThrow("email: missing required property")
+    expect(() => { Check.raise(Admin, { id:1, name:"a", email:"a@b", address:{ city:"x" }, level:4 })}).toThrow("level: value of 4 > maximum value of 3")
+    expect(() => { Check.raise(Admin, { id:1, name:"root", email:"a@b", address:{ city:"x" }, level:1 })}).toThrow("name: reserved name")
+    expect(() => { Check.raise(Admin, { id:1, name:"a", email:"a@b", address:{ city:"x" }, level:1, x:1 })}).toThrow("x: unexpected property")
+  })
+  test("pick and omit", () => {
+    class Summary extends Check.pick(User, ["id", "name"]) {}
+    const s = Check.raise(Summary, { id:1, name:"a" })
+    const id:number = s.id
+    expect(id).toBe(1)
+    expect(Object.keys(s)).toStrictEqual(["id", "name"])
+    expect(() => { Check.raise(Summary, { id:0, name:"a" })}).toThrow("id: value of 0 < minimum value of 1")
+    expect(() => { Check.raise(Summary, { id:1, name:"a", email:"" })}).toThrow("email: unexpected property")
+    class Create extends Check.omit(User, ["id"], { unknown:"strip" }) {}
+    const c = Check.raise(Create, { name:"a", address:{ city:"x" }, id:5 })
+    expect(Object.keys(c)).toStrictEqual(["name", "address"])
+    expect(() => { Check.raise(Create, { name:"a", address:{ city:"" }})}).toThrow("address.city: length of 0 < minimum length of 1")
+  })
+  test("partial", () => {
+    class Update extends Check.partial(User) {}
+    const u = Check.raise(Update, { name:"b" })
+    const id:number|undefined = u.id
+    expect(id).toBeUndefined()
+    expect(u.name).toBe("b")
+    expect(() => { Check.raise(Update, { name:"" })}).toThrow("name: length of 0 < minimum length of 1")
+    expect(Check.raise(User, { id:1, name:"a", address:{ city:"x" }}).id).toBe(1)
+    expect(() => { Check.raise(User, { name:"a", address:{ city:"x" }})}).toThrow("id: missing required property")
+  })
+  test("recursive classes", () => {
+    class Node extends Check.define({ n:{ v:0 }, kids:{ v:[] as Base[] }}) {}
+    Check.recurse(Node, "kids", [Check.sample(Node)])
+    class Labeled extends Check.extend(Node, { label:{ v:"" }}) {}
+    const l = Check.raise(Labeled, { n:1, label:"x", kids:[{ n:2, kids:[] }]})
+    expect(l.kids[0]).toBeInstanceOf(Node)
+    expect(() => { Check.raise(Labeled, { n:1, label:"x", kids:[{ kids:[] }]})}).toThrow("kids[0].n: missing required property")
+  })
+})
+
+describe("transforms", () => {
+  const trim = { before:(s:string) => s.trim() }
+  class Contact extends Check.define({
+    name:{ v:"a", min:1, transform:trim },
+    email:{ v:"a@b", regex:/^[a-z]+@[a-z]+$/, transform:{ before:(s:string) => s.trim().toLowerCase() }},
+    score:{ v:1, max:10, integer:false, transform:{ after:(n:number) => Math.round(n) }},
+    nick:{ v:"", required:false, transform:trim },
+  }) {}
+  class Book extends Check.define({
+    contacts:{ v:[Check.sample(Contact)] },
+    owner:{ v:Check.sample(Contact) },
+    span:{ v:Check.tuple({ v:0, transform:{ before:(n:number) => Math.max(n, 0) }}, { v:"", max:2, transform:{ before:(s:string) => s.trim(), after:(s:string) => s.toUpperCase() }}) },
+  }) {}
+  test("before checks", () => {
+    const c = Check.raise(Contact, { name:"  Ann ", email:" ANN@Example ", score:2.6 })
+    expect([c.name, c.email, c.score, c.nick]).toStrictEqual(["Ann", "ann@example", 3, undefined])
+    expect(() => { Check.raise(Contact, { name:"   ", email:"a@b", score:1 })}).toThrow("name: length of 0 < minimum length of 1")
+    expect(new Contact({ name:" B", email:"b@c", score:1, nick:" b " }).nick).toBe("b")
+  })
+  test("after checks", () => {
+    expect(() => { Check.raise(Contact, { name:"a", email:"a@b", score:10.4 })}).toThrow("score: value of 10.4 > maximum value of 10")
+    expect(Check.raise(Contact, { name:"a", email:"a@b", score:9.6 }).score).toBe(10)
+  })
+  test("nested", () => {
+    const b = Check.raise(Book, {
+      contacts:[{ name:" x ", email:"X@Y", score:1.2 }],
+      owner:{ name:"o ", email:"o@p", score:0 },
+      span:[-3, " ab "],
+    })
+    expect([b.contacts[0]!.name, b.contacts[0]!.email, b.owner.name]).toStrictEqual(["x", "x@y", "o"])
+    expect(b.span).toStrictEqual([0, "AB"])
+    expect(() => { Check.raise(Book, { contacts:[], owner:{ name:"o", email:"o@p", score:0 }, span:[1, " abc "] })}).toThrow("span[1]: length of 3 > maximum length of 2")
+    expect(Check.stringify(Book, b)).toBe('{"contacts":[{"name":"x","email":"x@y","score":1}],"owner":{"name":"o","email":"o@p","score":0},"span":[0,"AB"]}')
+  })
+  test("before fallbacks", () => {
+    const lower = { before:(s:string) => s.toLowerCase() }
+    class Size extends Check.define({
+      s:{ v:"a", allowed:["a", "b"], fallback:"a", transform:lower },
+      t:{ v:Check.tuple({ v:"a", allowed:["a", "b"], fallback:"a", transform:lower }) },
+    }) {}
+    const sizes = (json:Record<string,unknown>) => {
+      const r = Check.run(Size, json)
+      const c = Check.compile(Size)(json)
+      expect(c).toStrictEqual(r)
+      return r.success ? [r.result.s, r.result.t[0]] : []
+    }
+    expect(sizes({ s:"B", t:["B"] })).toStrictEqual(["b", "b"])
+    expect(sizes({ s:"C", t:["C"] })).toStrictEqual(["a", "a"])
+    expect(sizes({ s:5, t:[5] })).toStrictEqual(["a", "a"])
+  })
+  test("throwing transforms", () => {
+    class T extends Check.define({
+      s:{ v:"", transform:{ before:(s:string) => { if (s === "x") throw new Error("no x"); if (s === "y") throw "no y"; return s }}},
+    }) {}
+    const failOf = (s:string) => {
+      const r = Check.run(T, { s })
+      const c = Check.compile(T)({ s })
+      expect(c.success ? undefined : c.fail.message).toBe(r.success ? undefined : r.fail.message)
+      return r.success ? undefined : [r.fail.prefix, r.fail.code, r.fail.message]
+    }
+    expect(failOf("x")).toStrictEqual(["s", "UNKNOWN", "no x"])
+    expect(failOf("y")).toStrictEqual(["s", "UNKNOWN", "unknown error"])
+    expect(failOf("z")).toBeUndefined()
+  })
+})
+
+describe("failure details", () => {
+  class Item extends Check.define({
+    sku:{ v:"A1", regex:/^[A-Z][0-9]$/ },
+    qty:{ v:1, min:1, max:9 },
+    tags:{ v:[""], min:1 },
+    color:{ v:"red", allowed:["red", "blue"] },
+    labels:{ v:Check.record(""), max:1 },
+    pair:{ v:Check.tuple({ v:0 }, { v:0 }) },
+  }) {}
+  class Order extends Check.define({ items:{ v:[Check.sample(Item)] }}) {}
+  const item = { sku:"A1", qty:1, tags:["x"], color:"red", labels:{}, pair:[1, 2] }
+  const failOf = (json:object):Fail => {
+    const r = Check.run(Item, { ...item, ...json })
+    if (r.success) throw new Error("expected failure")
+    return r.fail
+  }
+  test("params", () => {
+    expect(failOf({ qty:0 }).params).toStrictEqual({ limit:1, actual:0, unit:"value" })
+    expect(failOf({ qty:10 }).params).toStrictEqual({ limit:9, actual:10, unit:"value" })
+    expect(failOf({ tags:[] }).params).toStrictEqual({ limit:1, actual:0, unit:"length" })
+    expect(failOf({ labels:{ a:"", b:"" }}).params).toStrictEqual({ limit:1, actual:2, unit:"size" })
+    expect(failOf({ pair:[1] }).params).toStrictEqual({ limit:2, actual:1, unit:"length" })
+    expect(failOf({ color:"green" }).params).toStrictEqual({ actual:"green", allowed:["red", "blue"] })
+    expect(failOf({ sku:"a" }).params).toStrictEqual({ actual:"a", regex:"^[A-Z][0-9]$" })
+    expect(failOf({ qty:1.5 }).params).toStrictEqual({ actual:1.5 })
+    expect(failOf({ qty:"1" }).params).toStrictEqual({ expected:"number", got:"string" })
+    expect(failOf({ qty:undefined }).params).toStrictEqual({})
+  })
+  test("path", () => {
+    const r = Check.run(Order, { items:[item, { ...item, pair:[1, "2"] }]})
+    expect(r.success ? [] : r.fail.path).toStrictEqual(["items", 1, "pair", 1])
+    const d = Check.run(Order, { items:[{ ...item, labels:{ "a.b":1 }}]})
+    expect(d.success ? "" : d.fail.prefix).toBe('items[0].labels["a.b"]')
+    expect(d.success ? [] : d.fail.path).toStrictEqual(["items", 0, "labels", "a.b"])
+    class Dotted extends Check.define({ "x.y":{ v:[Check.sample(Order)] }}, { checks:[() => new Fail("line 3", "X", "x")] }) {}
+    const x = Check.run(Dotted, { "x.y":[{ items:[{ ...item, pair:[1, "2"] }]}]})
+    expect(x.success ? [] : x.fail.path).toStrictEqual(["x.y", 0, "items", 0, "pair", 1])
+    const c = Check.run(Dotted, { "x.y":[] })
+    expect(c.success ? [] : c.fail.path).toStrictEqual(["line 3"])
+    expect(new Fail("a.b", "X", "x").path).toStrictEqual(["a.b"])
+    expect(new Fail("a.b", "X", "x", {}, ["a", "b"]).path).toStrictEqual(["a", "b"])
+    expect(new Fail("", "X", "x").path).toStrictEqual([])
+  })
+  test("custom type mismatches", () => {
+    class Cents { constructor(readonly n:number) {} }
+    Check.addType({
+      name:"cents",
+      priority:60_000_000,
+      appliesTo:(v:unknown) => v instanceof Cents,
+      defaultTo:(sample:Cents) => sample,
+      mismatch:(json:unknown) => typeof(json) === "number" ? false : "not an amount",
+      parse:(prefix:string, sample:Cents, json:number) => ({ success:true, result:new Cents(json) }),
+    })
+    class Price extends Check.define({ amount:{ v:new Cents(0) }}) {}
+    const r = Check.run(Price, { amount:"1" })
+    expect(r.success ? undefined : r.fail.params).toStrictEqual({})
+    expect(Check.raise(Price, { amount:5 }).amount).toStrictEqual(new Cents(5))
+    class Points { constructor(readonly n:number) {} }
+    Check.addType({
+      name:"points",
+      priority:60_000_000,
+      appliesTo:(v:unknown) => v instanceof Points,
+      defaultTo:(sample:Points) => sample,
+      mismatch:(json:unknown) => typeof(json) === "number" ? false : { expected:"points", got:typeof(json) },
+      parse:(prefix:string, sample:Points, json:number) => ({ success:true, result:new Points(json) }),
+    })
+    class Score extends Check.define({ points:{ v:new Points(0) }}) {}
+    const s = Check.run(Score, { points:"1" })
+    expect(s.success ? undefined : [s.fail.message, s.fail.params]).toStrictEqual(["expected points but got string", { expected:"points", got:"string" }])
+  })
+  test("formatters", () => {
+    Check.formatWith({
+      MIN:f => `doit être au moins ${f.params.limit}`,
+      REQ:() => "obligatoire",
+    })
+    try {
+      const r = Check.run(Item, { ...item, qty:0 })
+      expect(r.success ? "" : Check.format(r.fail)).toBe("doit être au moins 1")
+      expect(() => { Check.raise(Item, { ...item, sku:undefined })}).toThrow("sku: obligatoire")
+      expect(() => { Check.raise(Item, { ...item, qty:10 })}).toThrow("qty: value of 10 > maximum value of 9")
+    } finally {
+      Check.formatWith({})
+    }
+    expect(() => { Check.raise(Item, { ...item, qty:0 })}).toThrow("qty: value of 0 < minimum value of 1")
+  })
+})
+
+describe("immutability", () => {
+  class Tag extends Check.define({ name:{ v:"" }}) {}
+  class Frozen extends Check.define({
+    n:{ v:1 },
+    list:{ v:[0] },
+    set:{ v:new Set([""]) },
+    map:{ v:Check.map(0) },
+    when:{ v:new Date(0) },
+    tag:{ v:Check.sample(Tag) },
+    pair:{ v:Check.tuple({ v:0 }, { v:[""] }) },
+  }, { freeze:true }) {}
+  const json = { n:1, list:[1], set:["a"], map:{ a:1 }, when:0, tag:{ name:"t" }, pair:[1, ["x"]] }
+  test("freeze", () => {
+    for (const f of [Check.raise(Frozen, json), new Frozen({ ...json, set:new Set(["a"]), map:new Map([["a", 1]]), when:new Date(0), tag:new Tag({ name:"t" }), pair:[1, ["x"]] })]) {
+      expect(Object.isFrozen(f)).toBe(true)
+      expect(() => { (f as any).n = 2 }).toThrow(TypeError)
+      expect(() => { f.list.push(2) }).toThrow(TypeError)
+      expect(() => { f.pair[1].push("y") }).toThrow(TypeError)
+      expect(() => { f.set.add("b") }).toThrow("can't add on a frozen Set")
+      expect(() => { f.map.clear() }).toThrow("can't clear on a frozen Map")
+      expect(() => { f.when.setFullYear(2000) }).toThrow("can't setFullYear on a frozen Date")
+      expect([f.n, [...f.set], f.map.get("a"), f.when.getTime()]).toStrictEqual([1, ["a"], 1, 0])
+      expect(() => { f.tag.name = "u" }).toThrow(TypeError)
+      expect(f.tag.name).toBe("t")
+    }
+    expect(Object.isFrozen(Check.sample(Frozen))).toBe(false)
+    class Settable extends Check.define({ n:{ v:1, min:0 }, id:{ v:1, readonly:true }}, { setters:true }) {}
+    class Outer extends Check.define({ inner:{ v:Check.sample(Settable) }, inners:{ v:[Check.sample(Settable)] }}, { freeze:true }) {}
+    const o = Check.raise(Outer, { inner:{ n:1, id:1 }, inners:[{ n:2, id:2 }]})
+    expect(() => { o.inner.n = 99 }).toThrow(TypeError)
+    expect(() => { o.inners[0]!.n = 99 }).toThrow(TypeError)
+    expect([o.inner.n, o.inner.id, o.inners[0]!.n]).toStrictEqual([1, 1, 2])
+  })
+  class Account extends Check.define({
+    id:{ v:1, readonly:true },
+    name:{ v:"a", min:1, transform:{ before:(s:string) => s.trim() }},
+    low:{ v:0 },
+    high:{ v:0 },
+    note:{ v:"", required:false },
+    tag:{ v:Check.sample(Tag), required:false },
+  }, {
+    setters:true,
+    checks:[o => o.high < o.low ? new Fail("high", "ORDER", "high is below low") : undefined],
+  }) {}
+  test("setters", () => {
+    const a = Check.raise(Account, { id:1, name:"a", low:0, high:5 })
+    a.name = " b "
+    expect(a.name).toBe("b")
+    expect(() => { a.name = "" }).toThrow("name: length of 0 < minimum length of 1")
+    expect(() => { a.low = "x" as any }).toThrow("low: expected number but got string")
+    expect(() => { a.low = 6 }).toThrow("high: high is below low")
+    expect(() => { (a as any).id = 2 }).toThrow(TypeError)
+    expect(() => { a.name = undefined as any }).toThrow("name: missing required property")
+    a.note = "n"
+    a.tag = { name:"x" } as Tag
+    expect(a.tag).toBeInstanceOf(Tag)
+    a.note = undefined
+    expect([a.id, a.name, a.low, a.note]).toStrictEqual([1, "b", 0, undefined])
+    expect(Check.stringify(Account, a)).toBe('{"id":1,"name":"b","low":0,"high":5,"tag":{"name":"x"}}')
+    const b = new Account({ id:2, name:"c", low:1, high:1 })
+    expect(() => { b.high = 0 }).toThrow("high: high is below low")
+    class Derived extends Check.pick(Account, ["name"]) {}
+    expect(() => { Check.raise(Derived, { name:"a" }).name = "" }).toThrow("name: length of 0 < minimum length of 1")
+  })
+  test("augmented", () => {
+    Check.augmentWith(o => Object.assign(o, { tagged:true }))
+    class F extends Check.define({ n:{ v:1 }}, { freeze:true }) {}
+    class S extends Check.define({ n:{ v:1 }}, { setters:true }) {}
+    for (const f of [new F({ n:2 }), Check.raise(F, { n:2 })]) {
+      expect([(f as any).tagged, Object.isFrozen(f)]).toStrictEqual([true, true])
+    }
+    const s = new S({ n:2 })
+    expect((s as any).tagged).toBe(true)
+    expect(() => { s.n = "x" as never }).toThrow("n: expected number but got string")
+  })
+})
+
+describe("patch", () => {
+  class Line extends Check.define({ sku:{ v:"a", min:1 }, qty:{ v:1, min:1 }}) {}
+  class Address extends Check.define({ city:{ v:"x", min:1 }, zip:{ v:"", required:false }}) {}
+  class Order extends Check.define({
+    id:{ v:1 },
+    note:{ v:"", required:false },
+    status:{ v:"new", required:"default" },
+    address:{ v:Check.sample(Address) },
+    lines:{ v:[Check.sample(Line)], min:1 },
+    tags:{ v:[""] },
+    labels:{ v:Check.record("") },
+  }, {
+    checks:[o => o.status === "shipped" && o.note === undefined ? new Fail("note", "NOTE", "shipped orders need a note") : undefined],
+  }) {}
+  const order = Check.raise(Order, {
+    id:1, note:"n", address:{ city:"Paris" },
+    lines:[{ sku:"a", qty:1 }, { sku:"b", qty:2 }], tags:["t"], labels:{ en:"hi" },
+  })
+  const patched = (changes:object, options?:Check.RunOptions) => {
+    const r = Check.patch(Order, order, changes as never, options)
+    if (!r.success) throw new CheckError(r.fail, r.fails)
+    return r.result
+  }
+  test("merges", () => {
+    const p = patched({ note:null, address:{ zip:"75001" }, lines:{ 1:{ qty:5 }}, tags:{ 0:"u" }, labels:{ fr:"salut" }})
+    expect(p).toBeInstanceOf(Order)
+    expect(p.note).toBeUndefined()
+    expect(p.status).toBe("new")
+    expect(p.address).toBeInstanceOf(Address)
+    expect([p.address.city, p.address.zip]).toStrictEqual(["Paris", "75001"])
+    expect(p.lines[1]).toBeInstanceOf(Line)
+    expect([p.lines[0], p.lines[1]!.sku, p.lines[1]!.qty]).toStrictEqual([order.lines[0], "b", 5])
+    expect(p.tags).toStrictEqual(["u"])
+    expect(p.labels).toStrictEqual({ fr:"salut" })
+    expect([order.note, order.address.zip, order.lines[1]!.qty, order.tags[0]]).toStrictEqual(["n", undefined, 2, "t"])
+    expect(patched({ lines:[{ sku:"c", qty:3 }]}).lines.map(x => x.sku)).toStrictEqual(["c"])
+    expect(patched({ status:null }).status).toBe("new")
+  })
+  test("copies unchanged values", () => {
+    const p = patched({ id:2, lines:{ 1:{ qty:5 }}})
+    expect([p.tags === order.tags, p.labels === order.labels, p.address === order.address, p.lines[0] === order.lines[0]]).toStrictEqual([false, false, false, false])
+    expect([p.tags, p.labels, p.address, p.lines[0]]).toStrictEqual([order.tags, order.labels, order.address, order.lines[0]])
+    p.tags.push("x")
+    p.address.city = "Lyon"
+    expect([order.tags, order.address.city]).toStrictEqual([["t"], "Paris"])
+    class Loose extends Check.define({ x:{ v:0 }}, { unknown:"keep" }) {}
+    class K extends Check.define({ s:{ v:new Set([0]) }, m:{ v:Check.map(new Date(0)) }, l:{ v:Check.sample(Loose) }, n:{ v:0 }}) {}
+    const k = Check.raise(K, { s:[1], m:{ a:"2020-01-01" }, l:{ x:1, y:2 }, n:0 })
+    const r = Check.patch(K, k, { n:1 })
+    if (!r.success) throw new CheckError(r.fail, r.fails)
+    expect([r.result.s === k.s, r.result.m === k.m, r.result.m.get("a") === k.m.get("a"), Check.extras(r.result.l) === Check.extras(k.l)]).toStrictEqual([false, false, false, false])
+    expect([r.result.s, r.result.m, Check.extras(r.result.l)]).toStrictEqual([k.s, k.m, { y:2 }])
+  })
+  test("inherited names", () => {
+    expect(patched(JSON.parse(`{"constructor":1,"toString":2}`))).toStrictEqual(order)
+    expect(Check.extras(patched(JSON.parse(`{"constructor":1,"__proto__":{"p":3}}`), { unknown:"keep" }))).toStrictEqual(JSON.parse(`{"constructor":1,"__proto__":{"p":3}}`))
+    const r = Check.patch(Order, order, { toString:2 }, { unknown:"reject" })
+    expect(r.success ? "" : r.fail.code + " " + r.fail.prefix).toBe("UNEXPECTED toString")
+  })
+  test("fails like run", () => {
+    const fail = (changes:object, options?:Check.RunOptions) => {
+      const r = Check.patch(Order, order, changes as never, options)
+      return r.success ? "" : r.fails.map(x => x.prefix + ": " + x.message).join("\n")
+    }
+    expect(fail({ id:null })).toBe("id: missing required property")
+    expect(fail({ address:{ city:"" }})).toBe("address.city: length of 0 < minimum length of 1")
+    expect(fail({ lines:{ 1:{ qty:0 }}})).toBe("lines[1].qty: value of 0 < minimum value of 1")
+    expect(fail({ lines:{ 2:{ qty:1 }}})).toBe("lines[2]: no element at index 2")
+    expect(fail({ lines:{ x:{ qty:1 }}})).toBe("lines[x]: no element at index x")
+    expect(fail({ lines:[] })).toBe("lines: length of 0 < minimum length of 1")
+    expect(fail({ tags:{ 0:1 }})).toBe("tags[0]: expected string but got number")
+    expect(fail({ status:"shipped", note:null })).toBe("note: shipped orders need a note")
+    expect(fail({ bogus:1 })).toBe("")
+    expect(fail({ id:"1", note:1 })).toBe("id: expected number but got string")
+    expect(fail({ lines:{ 0:{ qty:0 }, 1:{ qty:0 }}})).toBe("lines[0].qty: value of 0 < minimum value of 1")
+    expect(fail({ bogus:1 }, { unknown:"reject" })).toBe("bogus: unexpected property")
+    Check.collectAllFails(true)
+    try {
+      expect(fail({ id:"1", lines:{ 0:{ qty:0 }, 1:{ sku:"" }}})).toBe("id: expected number but got string\nlines[0].qty: value of 0 < minimum value of 1\nlines[1].sku: length of 0 < minimum length of 1")
+    } finally {
+      Check.collectAllFails(false)
+    }
+  })
+  test("extras", () => {
+    const o = Check.raise(Order, { id:1, address:{ city:"x" }, lines:[{ sku:"a", qty:1 }], tags:[], labels:{}, x:1 }, { unknown:"keep" })
+    const p = Check.patch(Order, o, { id:2 })
+    expect(p.success ? Check.extras(p.result) : undefined).toStrictEqual({ x:1 })
+    const q = Check.patch(Order, o, { x:null, y:2 }, { unknown:"keep" })
+    expect(q.success ? Check.extras(q.result) : undefined).toStrictEqual({ y:2 })
+    const r = Check.patch(Order, order, { y:2 }, { unknown:"keep" })
+    expect(r.success ? Check.extras(r.result) : undefined).toStrictEqual({ y:2 })
+  })
+})
+
+describe("diff", () => {
+  class Circle extends Check.define({ kind:{ v:"circle", allowed:["circle"] }, r:{ v:1 }}) {}
+  class Square extends Check.define({ kind:{ v:"square", allowed:["square"] }, side:{ v:1 }}) {}
+  class Line extends Check.define({ sku:{ v:"a" }, qty:{ v:1 }}) {}
+  class Doc extends Check.define({
+    title:{ v:"" },
+    note:{ v:"", required:false },
+    at:{ v:new Date(0) },
+    lines:{ v:[Check.sample(Line)] },
+    tags:{ v:new Set([""]) },
+    labels:{ v:Check.map("") },
+    span:{ v:Check.tuple({ v:0 }, { v:0, required:false }) },
+    shape:{ v:Check.union([Circle, Square], "kind") },
+  }) {}
+  const a = Check.raise(Doc, {
+    title:"a", note:"n", at:0, lines:[{ sku:"a", qty:1 }, { sku:"b", qty:1 }], tags:["x", "y"],
+    labels:{ en:"hi", de:"hallo" }, span:[1, 2], shape:{ kind:"circle", r:1 },
+  })
+  const b = Check.raise(Doc, {
+    title:"b", at:1000, lines:[{ sku:"a", qty:2 }], tags:["y", "z"],
+    labels:{ en:"hello", "fr.ca":"allo" }, span:[1], shape:{ kind:"circle", r:2 },
+  })
+  test("changes", () => {
+    expect(Check.diff(Doc, a, a)).toStrictEqual([])
+    const changes = Check.diff(Doc, a, b)
+    expect(changes.map(x => [x.prefix, x.kind, x.from, x.to])).toStrictEqual([
+      ["title", "changed", "a", "b"],
+      ["note", "removed", "n", undefined],
+      ["at", "changed", "1970-01-01T00:00:00.000Z", "1970-01-01T00:00:01.000Z"],
+      ["lines[0].qty", "changed", 1, 2],
+      ["lines[1]", "removed", { sku:"b", qty:1 }, undefined],
+      ["tags", "removed", "x", undefined],
+      ["tags", "added", undefined, "z"],
+      ['labels["en"]', "changed", "hi", "hello"],
+      ['labels["de"]', "removed", "hallo", undefined],
+      ['labels["fr.ca"]', "added", undefined, "allo"],
+      ["span[1]", "removed", 2, undefined],
+      ["shape.r", "changed", 1, 2],
+    ])
+    expect(changes[9]!.path).toStrictEqual(["labels", "fr.ca"])
+    expect(new Check.Change("", "changed").path).toStrictEqual([])
+    expect(Check.diff(Doc, b, a).map(x => x.prefix + " " + x.kind)).toContain("note added")
+    const c = Check.raise(Doc, { title:"a", at:0, lines:[], tags:[], labels:{}, span:[1], shape:{ kind:"square", side:1 }})
+    expect(Check.diff(Doc, b, c).find(x => x.prefix === "shape")).toStrictEqual(new Check.Change("shape", "changed", { kind:"circle", r:2 }, { kind:"square", side:1 }))
+  })
+  test("apply", () => {
+    const r = Check.applyDiff(Doc, a, Check.diff(Doc, a, b))
+    expect(r.success).toBe(true)
+    if (!r.success) return
+    expect(Check.diff(Doc, r.result, b)).toStrictEqual([])
+    expect(Check.stringify(Doc, r.result)).toBe(Check.stringify(Doc, b))
+    const back = Check.applyDiff(Doc, b, Check.diff(Doc, b, a))
+    expect(back.success && Check.diff(Doc, back.result, a)).toStrictEqual([])
+    const missing = Check.applyDiff(Doc, b, [new Check.Change("lines[3].qty", "changed", 1, 2, false, ["lines", 3, "qty"]), new Check.Change("title", "added", undefined, "t", true)])
+    expect(missing.success ? "" : missing.fail.message).toBe("nothing to change at lines[3].qty")
+    const bad = Check.applyDiff(Doc, b, [new Check.Change("lines[0].qty", "changed", 2, "x", false, ["lines", 0, "qty"])])
+    expect(bad.success ? "" : bad.fail.prefix).toBe("lines[0].qty")
+    const absent = Check.applyDiff(Doc, b, [new Check.Change("tags", "removed", "q", undefined, true)])
+    expect(absent.success && [...absent.result.tags]).toStrictEqual(["y", "z"])
+    class K extends Check.define({ "x.y":{ v:0 }, "m[0]":{ v:Check.record([Check.sample(Line)]) }}) {}
+    const k1 = Check.raise(K, { "x.y":1, "m[0]":{ "a.b":[{ sku:"a", qty:1 }]}})
+    const k2 = Check.raise(K, { "x.y":2, "m[0]":{ "a.b":[{ sku:"a", qty:2 }]}})
+    const kd = Check.diff(K, k1, k2)
+    expect(kd.map(x => x.path)).toStrictEqual([["x.y"], ["m[0]", "a.b", 0, "qty"]])
+    const replayed = Check.applyDiff(K, k1, kd)
+    expect(replayed.success && Check.equals(K, replayed.result, k2)).toBe(true)
+  })
+})
+
+describe("equality", () => {
+  class Circle extends Check.define({ kind:{ v:"circle", allowed:["circle"] }, r:{ v:1 }}) {}
+  class Square extends Check.define({ kind:{ v:"square", allowed:["square"] }, side:{ v:1 }}) {}
+  class Tag extends Check.define({ name:{ v:"" }}) {}
+  class Thing extends Check.define({
+    name:{ v:"" },
+    note:{ v:"", required:false },
+    at:{ v:new Date(0) },
+    big:{ v:BigInt(0) },
+    list:{ v:[0] },
+    tags:{ v:new Set([Check.sample(Tag)]) },
+    labels:{ v:Check.map("") },
+    counts:{ v:Check.record(0) },
+    span:{ v:Check.tuple({ v:0 }, { v:"" }) },
+    shape:{ v:Check.union([Circle, Square], "kind") },
+  }) {}
+  const json = {
+    name:"a", at:"2024-01-01T00:00:00Z", big:"1", list:[1, 2], tags:[{ name:"x" }, { name:"y" }],
+    labels:{ en:"hi", fr:"salut" }, counts:{ a:1, b:2 }, span:[1, "s"], shape:{ kind:"circle", r:1 },
+  }
+  const a = Check.raise(Thing, json)
+  const same = Check.raise(Thing, {
+    ...json, at:1704067200000, tags:[{ name:"y" }, { name:"x" }],
+    labels:{ fr:"salut", en:"hi" }, counts:{ b:2, a:1 },
+  })
+  test("equals and hash", () => {
+    expect(Check.equals(Thing, a, same)).toBe(true)
+    expect(Check.hash(Thing, a)).toBe(Check.hash(Thing, same))
+    const differ = (changes:object) => {
+      const b = Check.raise(Thing, { ...json, ...changes })
+      return !Check.equals(Thing, a, b)
+    }
+    expect(differ({ name:"b" })).toBe(true)
+    expect(differ({ note:"n" })).toBe(true)
+    expect(differ({ at:0 })).toBe(true)
+    expect(differ({ big:"2" })).toBe(true)
+    expect(differ({ list:[2, 1] })).toBe(true)
+    expect(differ({ list:[1] })).toBe(true)
+    expect(differ({ tags:[{ name:"x" }] })).toBe(true)
+    expect(differ({ tags:[{ name:"x" }, { name:"z" }] })).toBe(true)
+    expect(differ({ labels:{ en:"hi", de:"salut" }})).toBe(true)
+    expect(differ({ counts:{ a:1 }})).toBe(true)
+    expect(differ({ span:[1, "t"] })).toBe(true)
+    expect(differ({ shape:{ kind:"circle", r:2 }})).toBe(true)
+    expect(differ({ shape:{ kind:"square", side:1 }})).toBe(true)
+    expect(Check.hash(Thing, Check.raise(Thing, { ...json, list:[2, 1] }))).not.toBe(Check.hash(Thing, a))
+    expect(Check.hash(Thing, Check.raise(Thing, { ...json, counts:{ a:2, b:1 }}))).not.toBe(Check.hash(Thing, a))
+  })
+  test("custom types", () => {
+    class Name { constructor(readonly s:string) {} }
+    class Code { constructor(readonly s:string) {} }
+    const base = {
+      defaultTo:(sample:unknown) => sample,
+      mismatch:(json:unknown) => typeof(json) === "string" ? false : "expected string but got " + typeof(json),
+      encode:(sample:unknown, value:{ s:string }) => value.s,
+    }
+    Check.addType({
+      ...base,
+      name:"name",
+      priority:60_000_000,
+      appliesTo:(v:unknown) => v instanceof Name,
+      parse:(prefix:string, sample:Name, json:string) => ({ success:true, result:new Name(json) }),
+      equals:(sample:Name, a:Name, b:Name) => a.s.toLowerCase() === b.s.toLowerCase(),
+      hash:(sample:Name, value:Name) => value.s.toLowerCase().length,
+    })
+    Check.addType({
+      ...base,
+      name:"code",
+      priority:60_000_000,
+      appliesTo:(v:unknown) => v instanceof Code,
+      parse:(prefix:string, sample:Code, json:string) => ({ success:true, result:new Code(json) }),
+      equals:(sample:Code, a:Code, b:Code) => a.s.trim() === b.s.trim(),
+    })
+    class Person extends Check.define({ name:{ v:new Name("") }, code:{ v:new Code("") }, aliases:{ v:new Set([new Name("")]) }}) {}
+    const p = Check.raise(Person, { name:"Ann", code:"a1", aliases:["Annie", "ANNA"] })
+    const q = Check.raise(Person, { name:"ANN", code:" a1 ", aliases:["anna", "annie"] })
+    expect(Check.equals(Person, p, q)).toBe(true)
+    expect(Check.hash(Person, p)).toBe(Check.hash(Person, q))
+    expect(Check.diff(Person, p, q)).toStrictEqual([])
+    expect(Check.equals(Person, p, Check.raise(Person, { name:"Bob", code:"a1", aliases:["anna", "annie"] }))).toBe(false)
+    expect(Check.equals(Person, p, Check.raise(Person, { name:"Ann", code:"a1", aliases:["anna", "anne"] }))).toBe(false)
+  })
+})
+
+describe("arbitrary", () => {
+  class Circle extends Check.define({ kind:{ v:"circle", allowed:["circle"] }, r:{ v:1, min:1, max:5 }}) {}
+  class Square extends Check.define({ kind:{ v:"square", allowed:["square"] }, side:{ v:1, min:1 }}) {}
+  class Tag extends Check.define({ name:{ v:"t", min:1, max:8 }}) {}
+  class Node extends Check.define({ n:{ v:0, min:0, max:9 }, kids:{ v:[] as Base[], required:false }}) {}
+  Check.recurse(Node, "kids", [Check.sample(Node)])
+  class Everything extends Check.define({
+    id:{ v:1, min:1, max:1000 },
+    ratio:{ v:0.5, min:0, max:1, integer:false },
+    name:{ v:"abc", min:2, max:6 },
+    code:{ v:"AB-12", regex:/^[A-Z]{2}-[0-9]{2}$/ },
+    color:{ v:"red", allowed:["red", "green", "blue"] },
+    flag:{ v:true },
+    note:{ v:"", required:false },
+    level:{ v:1, required:"default", min:1, max:3 },
+    big:{ v:BigInt(5), min:BigInt(0), max:BigInt(10) },
+    at:{ v:new Date(0), min:new Date(0), max:new Date(1000) },
+    tags:{ v:[Check.sample(Tag)], min:1, max:3 },
+    set:{ v:new Set([0]), max:2 },
+    labels:{ v:Check.record(0, { min:2, max:2 }), max:2 },
+    span:{ v:Check.tuple({ v:0, min:0, max:5 }, { v:"", required:false }) },
+    shape:{ v:Check.union([Circle, Square], "kind") },
+    tree:{ v:Check.sample(Node) },
+  }, {
+    checks:[o => o.id % 2 === 0 ? new Fail("id", "ODD", "id must be odd") : undefined],
+  }) {}
+  test("valid", () => {
+    for (let seed = 0; seed < 30; seed++) {
+      const e = Check.arbitrary(Everything, { seed })
+      expect(e).toBeInstanceOf(Everything)
+      expect(e.id % 2).toBe(1)
+      expect(e.tags.every(x => x instanceof Tag)).toBe(true)
+      expect(e.big >= BigInt(0) && e.big <= BigInt(10)).toBe(true)
+      expect(e.at.getTime()).toBeLessThanOrEqual(1000)
+      expect(e.code).toMatch(/^[A-Z]{2}-[0-9]{2}$/)
+      expect(Check.run(Everything, JSON.parse(Check.stringify(Everything, e))).success).toBe(true)
+    }
+    expect(Check.equals(Everything, Check.arbitrary(Everything, { seed:7 }), Check.arbitrary(Everything, { seed:7 }))).toBe(true)
+    const names = new Set(Array.from({ length:20 }, (_, seed) => Check.arbitrary(Everything, { seed }).name))
+    expect(names.size).toBeGreaterThan(10)
+    expect(Check.arbitrary(Tag)).toBeInstanceOf(Tag)
+  })
+  test("patterns", () => {
+    const supported = [
+      /^\d{3}$/, /^[a-f0-9]{8}-x$/i, /^(?:ab|cd)+\.?$/, /^(?<y>19|20)\d\d[-/]?[\w]{2,}\s*$/,
+      /^[^a-z\d]\D\W\S[\x41-\u0043\-\]]\n?\t?$/, /^a*?b+c{2,}d{1,3}$/, /.x/, /^[\d-x]$/,
+    ]
+    for (const regex of supported) {
+      class C extends Check.define({ s:{ v:"", regex }}) {}
+      for (let seed = 0; seed < 10; seed++) expect(Check.arbitrary(C, { seed }).s).toMatch(regex)
+    }
+    const unsupported:[RegExp,string][] = [
+      [/^(?=a)a$/, "a"], [/^(a)\1$/, "aa"], [/^\bx$/, "x"], [/^\x4$/, "x4"], [/^{a$/, "{a"], [/^[a-\d]$/, "a"], [/^[\b]$/, "\b"], [/^[^ -~]?$/, ""], [/^((?=a)a)$/, "a"],
+    ]
+    for (const [regex, v] of unsupported) {
+      class C extends Check.define({ s:{ v, regex }}) {}
+      expect(Check.arbitrary(C, { seed:1 }).s).toMatch(regex)
+    }
+    class Hard extends Check.define({ s:{ v:"", regex:/^(?=x)x$/ }}) {}
+    expect(() => Check.arbitrary(Hard, { seed:1 })).toThrow(new TypeError("can't generate a value for s"))
+    class Never extends Check.define({ n:{ v:1 }}, { checks:[() => new Fail("", "NO", "never")] }) {}
+    expect(() => Check.arbitrary(Never, { seed:1 })).toThrow(new TypeError("can't generate a valid Never"))
+  })
+  test("fallbacks", () => {
+    class Odd extends Check.define({ n:{ v:1, custom:(n:number) => n === 1 ? undefined : new Fail("", "ONE", "must be one") }}) {}
+    expect(Check.arbitrary(Odd, { seed:1 }).n).toBe(1)
+    class Never extends Check.define({ n:{ v:1 }}, { checks:[o => o.n === 1 ? undefined : new Fail("n", "ONE", "must be one")] }) {}
+    expect(Check.arbitrary(Never, { seed:1 }).n).toBe(1)
+    class Other extends Check.define({ o:{ v:{ a:1 } as object }}) {}
+    expect(Check.arbitrary(Other, { seed:1 }).o).toStrictEqual({ a:1 })
+    class Meters { constructor(readonly m:number) {} }
+    Check.addType({
+      name:"meters",
+      priority:60_000_000,
+      appliesTo:(v:unknown) => v instanceof Meters,
+      defaultTo:(sample:Meters) => sample,
+      mismatch:(json:unknown) => typeof(json) === "number" ? false : "expected number but got " + typeof(json),
+      parse:(prefix:string, sample:Meters, json:number) => ({ success:true, result:new Meters(json) }),
+      encode:(sample:Meters, value:Meters) => value.m,
+    })
+    class Loose extends Check.define({
+      big:{ v:BigInt(0) },
+      at:{ v:new Date(0) },
+      before:{ v:new Date(0), max:new Date(0) },
+      size:{ v:1, allowed:[1, 2, 3] },
+      empty:{ v:"", min:0 },
+      length:{ v:new Meters(3) },
+    }) {}
+    for (let seed = 0; seed < 10; seed++) {
+      const l = Check.arbitrary(Loose, { seed })
+      expect(l.before.getTime()).toBeLessThanOrEqual(0)
+      expect(l.length).toStrictEqual(new Meters(3))
+      const { fail } = Check.arbitraryInvalid(Loose, { seed })
+      expect(["big", "at", "before", "size", "empty", "length"]).toContain(fail.prefix)
+    }
+  })
+  test("invalid", () => {
+    const codes = new Set<string>()
+    for (let seed = 0; seed < 60; seed++) {
+      const { json, fail } = Check.arbitraryInvalid(Everything, { seed })
+      codes.add(fail.code)
+      Check.collectAllFails(true)
+      try {
+        const r = Check.run(Everything, json)
+        expect(r.success ? [] : r.fails.map(x => [x.prefix, x.code, x.message])).toStrictEqual([[fail.prefix, fail.code, fail.message]])
+      } finally {
+        Check.collectAllFails(false)
+      }
+    }
+    expect([...codes].sort()).toStrictEqual(["ALLOWED", "INTEGER", "MAX", "MIN", "REGEX", "REQ", "TYPE"])
+    class Empty extends Check.define({}) {}
+    expect(() => { Check.arbitraryInvalid(Empty) }).toThrow("can't make an invalid Empty")
+  })
+})
+
+describe("compile", () => {
+  class Circle extends Check.define({ kind:{ v:"circle", allowed:["circle"] }, r:{ v:1, min:1, max:5 }}) {}
+  class Square extends Check.define({ kind:{ v:"square", allowed:["square"] }, side:{ v:1, min:1 }}) {}
+  class Tag extends Check.define({ name:{ v:"t", min:1, max:8 }}) {}
+  class Node extends Check.define({ n:{ v:0, min:0, max:9 }, kids:{ v:[] as Base[], required:false }}) {}
+  Check.recurse(Node, "kids", [Check.sample(Node)])
+  class Event extends Check.define({
+    id:{ v:1, min:1, max:1000 },
+    ratio:{ v:0.5, min:0, max:1, integer:false },
+    name:{ v:"abc", min:2, max:6, transform:{ before:(s:string) => s.trim(), after:(s:string) => s.toUpperCase() }},
+    code:{ v:"AB-12", regex:/^[A-Z]{2}-[0-9]{2}$/ },
+    color:{ v:"red", allowed:["red", "green", "blue"] },
+    size:{ v:"m", allowed:["s", "m", "l"], fallback:"m" },
+    note:{ v:"", required:false },
+    level:{ v:1, required:"default", min:1, max:3 },
+    at:{ v:new Date(0), min:new Date(0), max:new Date(1000) },
+    tags:{ v:[Check.sample(Tag)], min:1, max:3 },
+    ids:{ v:[0] },
+    set:{ v:new Set([0]), max:2 },
+    labels:{ v:Check.record(0, { min:2, max:2 }), max:2 },
+    span:{ v:Check.tuple({ v:0, min:0, max:5 }, { v:"", required:false }) },
+    shape:{ v:Check.union([Circle, Square], "kind") },
+    tree:{ v:Check.sample(Node) },
+    extra:{ v:Check.sample(Tag), required:false },
+    days:{ v:[new Date(0)], required:false },
+  }, {
+    checks:[o => o.id % 7 === 0 ? new Fail("id", "SEVEN", "no multiples of seven") : undefined],
+  }) {}
+  const validate = Check.compile(Event)
+  const same = (json:any, options?:Check.RunOptions) => {
+    const expected = Check.run(Event, json, options)
+    const actual = validate(json, options)
+    expect(actual.success).toBe(expected.success)
+    if (actual.success && expected.success) {
+      expect(actual.result).toBeInstanceOf(Event)
+      expect(Check.equals(Event, actual.result, expected.result)).toBe(true)
+      expect(Check.extras(actual.result)).toStrictEqual(Check.extras(expected.result))
+    } else if (!actual.success && !expected.success) {
+      expect(actual.fails.map(x => [x.prefix, x.code, x.message])).toStrictEqual(expected.fails.map(x => [x.prefix, x.code, x.message]))
+    }
+    return actual.success
+  }
+  test("same results as run", () => {
+    let valid = 0
+    for (let seed = 0; seed < 40; seed++) {
+      const json = JSON.parse(Check.stringify(Event, Check.arbitrary(Event, { seed })))
+      if (same(json)) valid++
+      same({ ...json, name:"  ab ", size:"xl" })
+      same({ ...json, bogus:1 }, { unknown:"reject" })
+      same(json, { unknown:"reject" })
+      same({ ...json, bogus:1 }, { unknown:"keep" })
+      same(Check.arbitraryInvalid(Event, { seed }).json)
+      Check.collectAllFails(true)
+      same({ ...Check.arbitraryInvalid(Event, { seed }).json, id:0, tags:[{ name:"" }], bogus:1 }, { unknown:"reject" })
+      Check.collectAllFails(false)
+    }
+    expect(valid).toBeGreaterThan(30)
+    same(null)
+    const json = JSON.parse(Check.stringify(Event, Check.arbitrary(Event, { seed:2 })))
+    same({ ...json, days:["2024-01-01", 0] })
+    same({ ...json, days:["nope"] })
+    same({ ...json, ids:[1, "x"] })
+    same({ ...json, at:"nope" })
+    same({ ...json, id:7 })
+    const e = Check.arbitrary(Event, { seed:1 })
+    expect(validate(e as never)).toStrictEqual({ success:true, result:e })
+    const rejected = validate(json, { unknown:"reject" })
+    expect(rejected.success && Check.extras(rejected.result)).toBeUndefined()
+  })
+  test("warnings and errors", () => {
+    const logs:string[] = []
+    Check.warnWith((msg:string) => logs.push(msg))
+    Check.skipInvalidObjects(true)
+    class List extends Check.define({ tags:{ v:[Check.sample(Tag)] }, extra:{ v:Check.sample(Tag), required:false }}) {}
+    const r = Check.compile(List)({ tags:[{ name:"a" }, { name:"" }], extra:{ name:"" }})
+    expect(r.success && r.result.tags.length).toBe(1)
+    expect(logs).toStrictEqual([
+      "skipping element tags[1].name - length of 0 < minimum length of 1",
+      "skipping nested object extra.name - length of 0 < minimum length of 1",
+    ])
+    class Index extends Check.define({ byName:{ v:Check.record(Check.sample(Tag)) }}) {}
+    const i = Check.compile(Index)({ byName:{ a:{ name:"a" }, b:{ name:"" }}})
+    expect(i.success && Object.keys(i.result.byName)).toStrictEqual(["a"])
+    expect(logs[2]).toBe('skipping entry byName["b"].name - length of 0 < minimum length of 1')
+    expect(logs.length).toBe(3)
+    class Throws extends Check.define({ n:{ v:1, custom:(n:number) => { if (n > 1) throw new Error("boom"); return undefined }}}) {}
+    const t = Check.compile(Throws)({ n:2 })
+    expect(t.success ? "" : t.fail.code + " " + t.fail.message).toBe("UNKNOWN boom")
+    expect(Check.compile(Throws)({ n:1 }).success).toBe(true)
+  })
+  test("failing input is checked once", () => {
+    let calls = 0
+    const count = () => { calls++; return undefined }
+    class Part extends Check.define({ n:{ v:1, custom:count }}, { checks:[o => o.n === 8 ? new Fail("n", "EIGHT", "no eights") : undefined] }) {}
+    class Whole extends Check.define({ a:{ v:1, custom:count }, parts:{ v:[Check.sample(Part)] }, b:{ v:1, min:1 }}) {}
+    const validate = Check.compile(Whole)
+    const r = validate({ a:1, parts:[{ n:1 }], b:0 })
+    expect(r.success ? "" : r.fail.prefix).toBe("b")
+    expect(calls).toBe(2)
+    const failsOf = (json:any, options?:Check.RunOptions) => {
+      const expected = Check.run(Whole, json, options)
+      const actual = validate(json, options)
+      expect(actual.success).toBe(false)
+      return [actual, expected].map(x => x.success ? [] : x.fails.map(f => f.prefix + " " + f.code))
+    }
+    const [actual, expected] = failsOf({ a:1, parts:[{ n:1 }, { n:8 }], b:1 })
+    expect(actual).toStrictEqual(["parts[1].n EIGHT"])
+    expect(actual).toStrictEqual(expected)
+    const [rejected, expectedRejected] = failsOf({ a:1, parts:[{ n:1, x:1 }], b:1, y:1 }, { unknown:"reject" })
+    expect(rejected).toStrictEqual(["parts[0].x UNEXPECTED"])
+    expect(rejected).toStrictEqual(expectedRejected)
+    expect(validate({ a:1, parts:[new Part({ n:2 })], b:1 }).success).toBe(true)
+  })
+})
+
+describe("options and contexts", () => {
+  class E extends Check.define({ n:{ v:1, min:1 }}) {}
+  test("per call", () => {
+    class C extends Check.define({ a:{ v:[Check.sample(E)] }, d:{ v:new Date(0), required:false }}) {}
+    const logs:string[] = []
+    const options = { skipInvalidObjects:true, warn:(msg:string) => { logs.push(msg) }}
+    expect(Check.raise(C, { a:[{ n:0 }, { n:2 }]}, options).a.length).toBe(1)
+    expect(logs).toStrictEqual(["skipping element a[0].n - value of 0 < minimum value of 1"])
+    expect(() => { Check.raise(C, { a:[{ n:0 }]})}).toThrow("a[0].n: value of 0 < minimum value of 1")
+    const out:C[] = []
+    Check.parseCollection(C, `[{"a":[{"n":0}]}]`, x => { out.push(x) }, options)
+    expect(out[0]?.a).toStrictEqual([])
+    const r = Check.run(C, { a:[{ n:0 }, { n:-1 }]}, { collectAllFails:true })
+    expect(r.success ? [] : r.fails.map(x => x.prefix)).toStrictEqual(["a[0].n", "a[1].n"])
+    expect(() => { Check.parse(C, `{"a":[],"d":"2020-01-01"}`, { coerceTypes:false })}).toThrow("d: expected Date but got string")
+    expect((Check.raise(C, { a:[] }, { augment:o => Object.assign(o, { tagged:true }) }) as any).tagged).toBe(true)
+    expect((Check.raise(C, { a:[] }) as any).tagged).toBeUndefined()
+  })
+  test("per class", () => {
+    const logs:string[] = []
+    class Lenient extends Check.define({ a:{ v:[Check.sample(E)] }}, { skipInvalidObjects:true, warn:msg => { logs.push(msg) }}) {}
+    class Strict extends Check.define({ a:{ v:[Check.sample(E)] }, l:{ v:Check.sample(Lenient) }}) {}
+    const bad = { a:[{ n:0 }]}
+    expect(Check.raise(Lenient, bad).a).toStrictEqual([])
+    expect(Check.raise(Strict, { a:[], l:bad }).l.a).toStrictEqual([])
+    expect(() => { Check.raise(Strict, { ...bad, l:bad })}).toThrow("a[0].n: value of 0 < minimum value of 1")
+    expect(() => { Check.raise(Lenient, bad, { skipInvalidObjects:false })}).toThrow("a[0].n: value of 0 < minimum value of 1")
+    const Extended = Check.extend(Lenient, { s:{ v:"" }})
+    expect(Check.raise(Extended, { ...bad, s:"" }).a).toStrictEqual([])
+    expect(logs.length).toBe(3)
+  })
+  test("throwing augment", () => {
+    expect(() => { Check.raise(E, { n:1 }, { augment:() => { throw new Error("boom") }})}).toThrow("boom")
+    expect(() => { new E({ n:0 })}).toThrow("n: value of 0 < minimum value of 1")
+  })
+  test("contexts", () => {
+    const context = Check.createContext()
+    context.addType({
+      name:"upper",
+      priority:500_000_000,
+      appliesTo:(v:unknown) => v === "UPPER",
+      defaultTo:(sample:string) => sample,
+      mismatch:(json:unknown) => typeof(json) === "string" ? false : "expected string but got " + typeof(json),
+      parse:(prefix:string, sample:string, json:unknown) => ({ success:true, result:(json as string).toUpperCase() }),
+    })
+    class A extends context.define({ s:{ v:"UPPER" }, t:{ v:Check.tuple({ v:"UPPER" }), required:false }}) {}
+    class B extends Check.define({ s:{ v:"UPPER" }}) {}
+    expect(Check.raise(A, { s:"abc", t:["def"] })).toStrictEqual(new A({ s:"ABC", t:["DEF"] }))
+    expect(Check.raise(B, { s:"abc" }).s).toBe("abc")
+    const logs:string[] = []
+    class L extends context.define({ a:{ v:[Check.sample(E)] }, d:{ v:new Date(0), required:false }}) {}
+    context.skipInvalidObjects(true)
+    context.warnWith(msg => { logs.push(msg) })
+    expect(Check.raise(L, { a:[{ n:0 }]}).a).toStrictEqual([])
+    expect(logs).toStrictEqual(["skipping element a[0].n - value of 0 < minimum value of 1"])
+    context.skipInvalidObjects(false)
+    context.collectAllFails(true)
+    const r = Check.run(L, { a:[{ n:0 }, { n:0 }]})
+    expect(r.success ? 0 : r.fails.length).toBe(2)
+    context.coerceTypes(false)
+    expect(() => { Check.raise(L, { a:[], d:"2020-01-01" })}).toThrow("d: expected Date but got string")
+    context.augmentWith(o => Object.assign(o, { tagged:true }))
+    const I = context.fromJsonSchema({ type:"object", properties:{ s:{ type:"string" }}})
+    expect((Check.raise(I, { s:"" }) as any).tagged).toBe(true)
+    expect((Check.raise(B, { s:"" }) as any).tagged).toBeUndefined()
+  })
+})
+
+describe("skipped report", () => {
+  class E extends Check.define({ n:{ v:1, min:1 }}) {}
+  class C extends Check.define({
+    a:{ v:[Check.sample(E)] },
+    byName:{ v:Check.record(Check.sample(E)), required:"default" },
+    o:{ v:Check.sample(E), required:false },
+    ds:{ v:[new Date(0)], required:false },
+  }) {}
+  test("skipped items", () => {
+    const logs:string[] = []
+    Check.warnWith(msg => { logs.push(msg) })
+    Check.skipInvalidObjects(true)
+    const r = Check.runReport(C, { a:[{ n:1 }, { n:0 }], byName:{ x:{ n:-1 }}, o:{ n:0 }, ds:["nope", 0] })
+    expect(r.success && [r.result.a.length, Object.keys(r.result.byName).length, r.result.o, r.result.ds]).toStrictEqual([1, 0, undefined, [new Date(0)]])
+    expect(r.success && r.skipped.map(x => [x.prefix, x.input, x.fail.prefix, x.fail.code])).toStrictEqual([
+      ["a[1]", { n:0 }, "a[1].n", "MIN"],
+      ['byName["x"]', { n:-1 }, 'byName["x"].n', "MIN"],
+      ["o", { n:0 }, "o.n", "MIN"],
+      ["ds[0]", "nope", "ds[0]", "TYPE"],
+    ])
+    expect(logs.length).toBe(4)
+    expect(Check.runReport(C, { a:[{ n:1 }]})).toStrictEqual({ success:true, result:new C({ a:[{ n:1 }]}), skipped:[] })
+  })
+  test("failures", () => {
+    const r = Check.runReport(C, { a:[{ n:0 }]})
+    expect(r.success ? "" : r.fail.prefix).toBe("a[0].n")
+    const s = Check.runReport(C, { a:[{ n:0 }]}, { skipInvalidObjects:true, warn:() => {} })
+    expect(s.success && s.skipped.length).toBe(1)
+    const u = Check.runReport(C, { a:[{ n:0 }], b:1 }, { skipInvalidObjects:true, warn:() => {}, unknown:"reject" })
+    expect(u.success ? "" : u.fail.code).toBe("UNEXPECTED")
+  })
+})
+
+describe("migrations", () => {
+  class Doc extends Check.define({
+    version:{ v:3, allowed:[3] },
+    name:{ v:"", min:1 },
+    tags:{ v:[""] },
+  }, {
+    migrations:{ key:"version", steps:{
+      1:json => {
+        if (json.title === undefined) throw new Error("no title")
+        return { ...json, name:json.title }
+      },
+      2:json => ({ ...json, tags:String(json.tags).split(",").filter(x => x !== "") }),
+    }}
+  }) {}
+  test("upgrades", () => {
+    const expected = new Doc({ version:3, name:"a", tags:["x", "y"] })
+    expect(Check.raise(Doc, { title:"a", tags:"x,y" })).toStrictEqual(expected)
+    expect(Check.raise(Doc, { version:1, title:"a", tags:"x,y" })).toStrictEqual(expected)
+    expect(Check.raise(Doc, { version:2, name:"a", tags:"x,y" })).toStrictEqual(expected)
+    expect(Check.raise(Doc, { version:3, name:"a", tags:["x", "y"] })).toStrictEqual(expected)
+    expect(Check.parse(Doc, Check.stringify(Doc, expected))).toStrictEqual(expected)
+    expect(Check.compile(Doc)({ title:"a", tags:"x,y" })).toStrictEqual({ success:true, result:expected })
+    class Box extends Check.define({ doc:{ v:Check.sample(Doc) }}) {}
+    expect(Check.raise(Box, { doc:{ version:2, name:"a", tags:"x,y" }}).doc).toStrictEqual(expected)
+    expect(Check.arbitrary(Doc, { seed:1 }).version).toBe(3)
+  })
+  test("failures", () => {
+    const failOf = (json:Record<string,unknown>) => {
+      const r = Check.compile(Doc)(json)
+      return r.success ? undefined : [r.fail.prefix, r.fail.code, r.fail.message, r.fail.params]
+    }
+    expect(failOf({ version:4 })).toStrictEqual(["version", "MIGRATION", "unknown version 4", { actual:4, limit:3 }])
+    expect(failOf({ version:"2" })).toStrictEqual(["version", "MIGRATION", "unknown version 2", { actual:"2", limit:3 }])
+    expect(failOf({ tags:"" })).toStrictEqual(["version", "MIGRATION", "migration from version 1 failed: no title", { from:1, to:2 }])
+    expect(failOf({ version:2, name:"" })).toStrictEqual(["name", "MIN", "length of 0 < minimum length of 1", { limit:1, actual:0, unit:"length" }])
+    class Box extends Check.define({ doc:{ v:Check.sample(Doc) }}) {}
+    expect(() => { Check.raise(Box, { doc:{ version:0 }})}).toThrow("doc.version: unknown version 0")
+    const box = Check.compile(Box)({ doc:{ version:0 }})
+    expect(box.success ? "" : box.fail.prefix).toBe("doc.version")
+    class Bad extends Check.define({ version:{ v:2 }}, { migrations:{ key:"version", steps:{
+      1:json => { if (json.throws) throw "oops"; return [] as never }
+    }}}) {}
+    expect(() => { Check.raise(Bad, { version:1 })}).toThrow("version: migration from version 1 didn't return an object")
+    expect(() => { Check.raise(Bad, { throws:true })}).toThrow("version: migration from version 1 failed: unknown error")
+  })
+  test("definitions", () => {
+    const step = (json:Record<string,unknown>) => json
+    expect(() => Check.define({ version:{ v:2 }}, { migrations:{ key:"version", steps:{}}})).toThrow("migration steps must be consecutive integer versions")
+    expect(() => Check.define({ version:{ v:2 }}, { migrations:{ key:"version", steps:{ 1:step, 3:step }}})).toThrow("migration steps must be consecutive integer versions")
+    expect(() => Check.define({ version:{ v:2 }}, { migrations:{ key:"version", steps:{ 0.5:step }}})).toThrow("migration steps must be consecutive integer versions")
+    expect(() => Check.define({ version:{ v:2 }}, { migrations:{ key:"v", steps:{ 1:step }}})).toThrow("the sample of v must be the current version 2")
+    expect(() => Check.define({ version:{ v:3 }}, { migrations:{ key:"version", steps:{ 1:step }}})).toThrow("the sample of version must be the current version 2")
+  })
+})
@@ -7,11 +7,19 @@ export const REGEX = "REGEX"
 export const INTEGER = "INTEGER"
 export const UNKNOWN = "UNKNOWN"
 export const BIGINT = "BIGINT"
+export const SCHEMA = "SCHEMA"
+export const SYNTAX = "SYNTAX"
+export const TIMEOUT = "TIMEOUT"
+export const UNION = "UNION"
+export const UNEXPECTED = "UNEXPECTED"
+export const MIGRATION = "MIGRATION"
 
 export class Base {}
 
 type InputJSON = { [key: string]: unknown }
 
+export type JsonSchema = { [key: string]: unknown }
+
 interface Success<T> {
   success: true
   result: T
@@ -22,25 +30,59 @@ interface Failure {
   fail: Fail
 }
 
+interface Failures extends Failure {
+  fails: Fail[]
+}
+
+export interface Mismatch {
+  expected:string
+  got:string
+}
+
 export interface Type<T> {
   name:string
   priority:number
   appliesTo(sample:unknown):boolean
   defaultTo(sample:T):unknown
-  mismatch(json:unknown, sample:unknown):string|boolean
-  parse(prefix:string, sample:T, json:unknown):Success<T>|Failure
+  mismatch(json:unknown, sample:unknown):string|boolean|Mismatch
+  parse(prefix:string, sample:T, json:unknown, path:Path):Success<T>|Failure
+  encode?(sample:T, value:T):unknown
+  jsonSchema?(sample:T, schemaOf:(sample:unknown, property?:Check.Property<any>)=>JsonSchema):JsonSchema
+  diff?(prefix:string, sample:T, a:T, b:T, diffOf:Check.DiffOf, path:Path):Check.Change[]
+  equals?(sample:T, a:T, b:T, equalsOf:Check.EqualsOf):boolean
+  hash?(sample:T, value:T, hashOf:Check.HashOf):number
+  arbitrary?(sample:T, property:Check.Property<T>, arbitrary:Check.Arbitrary):unknown
+}
+
+
+export interface FailParams {
+  limit?:unknown
+  actual?:unknown
+  unit?:"value"|"length"|"size"
+  allowed?:readonly unknown[]
+  regex?:string
+  expected?:string
+  got?:string
+  [key:string]:unknown
 }
 
+export type Path = (string|number)[]
 
 export class Fail {
+  readonly path:Path
+
   constructor(
     readonly prefix:string,
     readonly code:string,
-    readonly message:string
-  ) {}
+    readonly message:string,
+    readonly params:FailParams = {},
+    path?:Path
+  ) {
+    this.path = path ?? (prefix === "" ? [] : [prefix])
+  }
 
-  withPrefix = (prefix:string):Fail => {
-    return new Fail(prefix, this.code, this.message)
+  withPrefix = (prefix:string, path?:Path):Fail => {
+    return new Fail(prefix, this.code, this.message, this.params, path)
   }
 }
 
@@ -48,22 +90,40 @@ export class CheckError extends Error {
 
   prefix:string
   code:string
+  fails:Fail[]
   
-  constructor(fail:Fail) {
-    super(fail.prefix + ": " + fail.message)
+  constructor(fail:Fail, fails:Fail[] = [fail]) {
+    super(fails.map(x => x.prefix + ": " + Check.format(x)).join("\n"))
     this.prefix = fail.prefix
     this.code = fail.code
+    this.fails = fails
   }
 }
 
 
 export namespace Check {//
 
-let skip = true
 let unsafe = false
 
 export const skipInvalidObjects = (flag:boolean) => {
-  skip = flag
+  defaults.skip = flag
+}
+
+export const collectAllFails = (flag:boolean) => {
+  defaults.all = flag
+}
+
+export const coerceTypes = (flag:boolean) => {
+  defaults.coerce = flag
+}
+
+const failure = (fails:Fail[]):Failures => {
+  if (!scope.all) fails = fails.slice(0, 1)
+  return { success:false, fail:fails[0]!, fails }
+}
+
+const failsOf = (r:Failure):Fail[] => {
+  return (r as Failures).fails ?? [r.fail]
 }
 
 const typeOf = (v:unknown) => {
@@ -71,6 +131,15 @@ const typeOf = (v:unknown) => {
   return typeof(v)
 }
 
+const isMismatch = (mm:string|boolean|Mismatch):mm is string|Mismatch => {
+  return typeof(mm) !== "boolean"
+}
+
+const typeFail = (prefix:string, path:Path, mm:string|Mismatch):Fail => {
+  if (typeof(mm) === "string") return new Fail(prefix, TYPE, mm, {}, path)
+  return new Fail(prefix, TYPE, `expected ${mm.expected} but got ${mm.got}`, { expected:mm.expected, got:mm.got }, path)
+}
+
 interface Collection<T> {
   name:string
   make():T
@@ -79,8 +148,10 @@ interface Collection<T> {
   sampleElement(sampleCollection:T):unknown
 }
 
+const collections = new WeakMap<Type<any>,Collection<any>>()
+
 export const collectionType = <T>(c:Collection<T>):Type<T> => {
-  return {
+  const type:Type<T> = {
     name: c.name,
     priority: 400_000_000,
     appliesTo:(v:unknown) => c.appliesTo(v),
@@ -88,38 +159,88 @@ export const collectionType = <T>(c:Collection<T>):Type<T> => {
     mismatch:(json:unknown) => {
       if (c.name !== "array" && c.appliesTo(json)) return true
       if (!Array.isArray(json)) {
-        return "expected array but got " + typeOf(json)
+        return { expected:"array", got:typeOf(json) }
       }
       return false
     },
-    parse:(prefix:string, sample:T, json:unknown) => {
+    parse:(prefix:string, sample:T, json:unknown, path:Path) => {
       const a = json as any[]
       const sampleElement = c.sampleElement(sample)
-      const type = types.find(x => x.appliesTo(sampleElement))!
+      const type = scope.types.find(x => x.appliesTo(sampleElement))!
       const result = c.make()
+      const fails:Fail[] = []
       for (let i = 0; i < a.length; i++) {
+        if (!scope.all && fails.length > 0) break
+        const elementPrefix = prefix + "[" + i + "]"
+        const elementPath = [...path, i]
         const mm = type.mismatch(a[i], sampleElement)
-        if (typeof(mm) === "string") {
-          return { success:false, fail:new Fail(prefix + "[" + i + "]", TYPE, mm)}
+        if (isMismatch(mm)) {
+          fails.push(typeFail(elementPrefix, elementPath, mm))
+          continue
         }
         if (sampleElement instanceof Base) {
           const cls = sampleElement.constructor
-          const r = run2(cls as never, prefix + "[" + i + "]", a[i])
+          const r = run2(cls as never, elementPrefix, elementPath, a[i])
           if (r.success) {
             c.add(result, r.result)
-          } else if (skip) {
-            warn(`skipping element ${r.fail.prefix} - ${r.fail.message}`)
+          } else if (scope.skip) {
+            skipItem("element", elementPrefix, a[i], r.fail)
           } else {
-            return r
+            fails.push(...r.fails)
           }
         } else {
-          const r = type.parse(prefix + "[" + i + "]", sampleElement, a[i])
-          if (r.success) c.add(result, r.result)
+          const r = type.parse(elementPrefix, sampleElement, a[i], elementPath)
+          if (r.success) {
+            c.add(result, r.result)
+          } else if (scope.skip) {
+            skipItem("element", elementPrefix, a[i], r.fail)
+          } else {
+            fails.push(...failsOf(r))
+          }
         }
       }
+      if (fails.length > 0) return failure(fails)
       return { success:true, result }
+    },
+    encode:(sample:T, value:T) => {
+      const sampleElement = c.sampleElement(sample)
+      const type = scope.types.find(x => x.appliesTo(sampleElement))!
+      return Array.from(value as Iterable<unknown>, x => encode(type, sampleElement, x))
+    },
+    diff:(prefix:string, sample:T, a:T, b:T, diffOf:DiffOf, path:Path) => {
+      const sampleElement = c.sampleElement(sample)
+      if (Array.isArray(a) && Array.isArray(b)) return diffElements(prefix, path, () => sampleElement, a, b, diffOf)
+      return diffMembers(prefix, path, sampleElement, a as Iterable<unknown>, b as Iterable<unknown>)
+    },
+    equals:(sample:T, a:T, b:T, equalsOf:EqualsOf) => {
+      const sampleElement = c.sampleElement(sample)
+      if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((x, i) => equalsOf(sampleElement, x, b[i]))
+      return sameMembers(sampleElement, a as Iterable<unknown>, b as Iterable<unknown>, equalsOf)
+    },
+    hash:(sample:T, value:T, hashOf:HashOf) => {
+      const sampleElement = c.sampleElement(sample)
+      const hashes = Array.from(value as Iterable<unknown>, x => hashOf(sampleElement, x))
+      return Array.isArray(value) ? combineHashes(hashes) : sumHashes(hashes)
+    },
+    arbitrary:(sample:T, property:Property<T>, a:Arbitrary) => {
+      const sampleElement = c.sampleElement(sample)
+      return Array.from({ length:arbitraryCount(property, a) }, () => a.of(sampleElement))
+    },
+    jsonSchema:(sample:T, schemaOf:(sample:unknown)=>JsonSchema) => {
+      return { type:"array", items:schemaOf(c.sampleElement(sample)) }
     }
   }
+  collections.set(type, c)
+  return type
+}
+
+const isoDate = /^[0-9]{4}-[0-9]{2}-[0-9]{2}(T[0-9]{2}:[0-9]{2}(:[0-9]{2}(\.[0-9]+)?)?(Z|[+-][0-9]{2}:[0-9]{2})?)?$/
+
+// Date rolls days past the end of a month into the next one
+const isIsoDate = (s:string):boolean => {
+  if (!isoDate.test(s)) return false
+  const day = new Date(s.slice(0, 10))
+  return !isNaN(day.getTime()) && day.toISOString().slice(0, 10) === s.slice(0, 10)
 }
 
 const arrayType = collectionType<Array<unknown>>({
@@ -131,7 +252,7 @@ const arrayType = collectionType<Array<unknown>>({
 })
 arrayType.priority = 300_000_000
 
-const types:Type<any>[] = [
+const builtins:Type<any>[] = [
   arrayType,
   {
     name:"checked object",
@@ -142,16 +263,333 @@ const types:Type<any>[] = [
       if (json instanceof Base) return true
       const t = typeOf(json)
       if (t !== "object") {
-        return "expected object but got " + t
+        return { expected:"object", got:t }
       }
       return false
     },
-    parse:(prefix:string, sample:unknown, json:unknown) => {
+    parse:(prefix:string, sample:unknown, json:unknown, path:Path) => {
       const cls = (sample as Base).constructor
       const object = json as Record<string,unknown>
-      return run2(cls as never, prefix, object)
+      return run2(cls as never, prefix, path, object)
+    },
+    encode:(sample:unknown, value:unknown) => {
+      const cls = (sample as Base).constructor
+      return encodeObject(cls as never, value as Base)
+    },
+    diff:(prefix:string, sample:Base, a:Base, b:Base, diffOf:DiffOf, path:Path) => {
+      return diffObject(sample.constructor as never, prefix, path, a, b, diffOf)
+    },
+    equals:(sample:Base, a:Base, b:Base, equalsOf:EqualsOf) => {
+      return sameObject(sample.constructor as never, a, b, equalsOf)
+    },
+    hash:(sample:Base, value:Base, hashOf:HashOf) => {
+      return hashObject(sample.constructor as never, value, hashOf)
+    },
+    arbitrary:(sample:Base, property:Property<Base>, a:Arbitrary) => {
+      return arbitraryObject(sample.constructor as never, a)
+    }
+  },
+  {
+    name:"dictionary",
+    priority:150_000_000,
+    appliesTo:(v:unknown) => v instanceof Dictionary,
+    defaultTo:(sample:Dictionary) => sample.make([]),
+    mismatch:(json:unknown) => {
+      const t = json instanceof Map ? "object" : typeOf(json)
+      if (t !== "object") {
+        return { expected:"object", got:t }
+      }
+      return false
+    },
+    parse:(prefix:string, sample:Dictionary, json:unknown, path:Path) => {
+      const type = scope.types.find(x => x.appliesTo(sample.v))!
+      const entries:[string,unknown][] = []
+      const fails:Fail[] = []
+      for (const [key, value] of entriesOf(json as object)) {
+        if (!scope.all && fails.length > 0) break
+        const entryPrefix = prefix + "[" + JSON.stringify(key) + "]"
+        const entryPath = [...path, key]
+        const keyFails = sample.check(key)
+        if (keyFails.length > 0) {
+          fails.push(...keyFails.map(x => x.withPrefix(entryPrefix, entryPath)))
+          continue
+        }
+        const mm = type.mismatch(value, sample.v)
+        if (isMismatch(mm)) {
+          fails.push(typeFail(entryPrefix, entryPath, mm))
+          continue
+        }
+        if (mm) {
+          entries.push([key, value])
+          continue
+        }
+        const r = type.parse(entryPrefix, sample.v, value, entryPath)
+        if (r.success) {
+          entries.push([key, r.result])
+        } else if (scope.skip && sample.v instanceof Base) {
+          skipItem("entry", entryPrefix, value, r.fail)
+        } else {
+          fails.push(...failsOf(r))
+        }
+      }
+      if (fails.length > 0) return failure(fails)
+      return { success:true, result:sample.make(entries) }
+    },
+    encode:(sample:Dictionary, value:object) => {
+      const type = scope.types.find(x => x.appliesTo(sample.v))!
+      return Object.fromEntries(entriesOf(value).map(([k, v]) => [k, encode(type, sample.v, v)]))
+    },
+    diff:(prefix:string, sample:Dictionary, a:object, b:object, diffOf:DiffOf, path:Path) => {
+      const ea = new Map(entriesOf(a))
+      const eb = new Map(entriesOf(b))
+      const changes:Change[] = []
+      for (const key of new Set([...ea.keys(), ...eb.keys()])) {
+        changes.push(...diffOf(prefix + "[" + JSON.stringify(key) + "]", sample.v, ea.get(key), eb.get(key), [...path, key]))
+      }
+      return changes
+    },
+    equals:(sample:Dictionary, a:object, b:object, equalsOf:EqualsOf) => {
+      const ea = entriesOf(a)
+      const eb = new Map(entriesOf(b))
+      return ea.length === eb.size && ea.every(([k, v]) => eb.has(k) && equalsOf(sample.v, v, eb.get(k)))
+    },
+    hash:(sample:Dictionary, value:object, hashOf:HashOf) => {
+      return sumHashes(entriesOf(value).map(([k, v]) => combineHashes([hashString(k), hashOf(sample.v, v)])))
+    },
+    arbitrary:(sample:Dictionary, property:Property<object>, a:Arbitrary) => {
+      const result:InputJSON = {}
+      const count = arbitraryCount(property, a)
+      for (let i = 0; i < count * 2 && Object.keys(result).length < count; i++) {
+        const key = arbitraryString({ ...sample.keys, v:"" }, a)
+        if (sample.check(key).length === 0) result[key] = a.of(sample.v)
+      }
+      return result
+    },
+    jsonSchema:(sample:Dictionary, schemaOf:(sample:unknown)=>JsonSchema) => {
+      const result:JsonSchema = { type:"object", additionalProperties:schemaOf(sample.v) }
+      const keys = sample.keys
+      const names:JsonSchema = {}
+      if (keys.min !== undefined) names.minLength = keys.min
+      if (keys.max !== undefined) names.maxLength = keys.max
+      if (keys.allowed !== undefined) names.enum = [...keys.allowed]
+      if (keys.regex !== undefined) names.pattern = keys.regex.source
+      if (Object.keys(names).length > 0) result.propertyNames = names
+      return result
+    }
+  },
+  {
+    name:"tuple",
+    priority:175_000_000,
+    appliesTo:(v:unknown) => v instanceof Tuple,
+    defaultTo:(sample:Tuple) => {
+      const result:unknown[] = []
+      for (const f of sample.fields) {
+        if (f.property.required === false) break
+        result.push(f.type.defaultTo(f.property.v))
+      }
+      return result
+    },
+    mismatch:(json:unknown) => {
+      if (!Array.isArray(json)) {
+        return { expected:"array", got:typeOf(json) }
+      }
+      return false
+    },
+    parse:(prefix:string, sample:Tuple, json:unknown[], path:Path) => {
+      const fields = sample.fields
+      if (json.length < sample.min) {
+        return failure([new Fail(prefix, MIN, `length of ${json.length} < minimum length of ${sample.min}`, { limit:sample.min, actual:json.length, unit:"length" }, path)])
+      }
+      if (json.length > fields.length) {
+        return failure([new Fail(prefix, MAX, `length of ${json.length} > maximum length of ${fields.length}`, { limit:fields.length, actual:json.length, unit:"length" }, path)])
+      }
+      const result:unknown[] = []
+      const fails:Fail[] = []
+      for (let i = 0; i < fields.length; i++) {
+        if (!scope.all && fails.length > 0) break
+        const f = fields[i]!
+        const elementPrefix = prefix + "[" + i + "]"
+        const elementPath = [...path, i]
+        let value = json[i]
+        if (i >= json.length) {
+          if (f.property.required === false) break
+          value = f.type.defaultTo(f.property.v)
+        }
+        const p = f.property
+        const fallback = p.allowed !== undefined && p.fallback !== undefined
+        const mm = f.type.mismatch(value, p.v)
+        if (isMismatch(mm)) {
+          if (!fallback) {
+            fails.push(typeFail(elementPrefix, elementPath, mm))
+            continue
+          }
+          value = p.fallback
+        } else if (!mm) {
+          const r = f.type.parse(elementPrefix, p.v, value, elementPath)
+          if (!r.success) {
+            fails.push(...failsOf(r))
+            continue
+          }
+          value = r.result
+        }
+        const transform = p.transform
+        if (transform?.before) value = transform.before(value)
+        if (fallback && p.allowed!.indexOf(value) < 0) value = p.fallback
+        const checkFails = f.check(value)
+        if (checkFails.length > 0) {
+          fails.push(...checkFails.map(x => x.withPrefix(elementPrefix, elementPath)))
+          continue
+        }
+        result.push(transform?.after ? transform.after(value) : value)
+      }
+      if (fails.length > 0) return failure(fails)
+      return { success:true, result }
+    },
+    encode:(sample:Tuple, value:unknown[]) => {
+      return value.map((x, i) => {
+        const f = sample.fields[i]!
+        return encode(f.type, f.property.v, x)
+      })
+    },
+    diff:(prefix:string, sample:Tuple, a:unknown[], b:unknown[], diffOf:DiffOf, path:Path) => {
+      return diffElements(prefix, path, i => sample.fields[i]!.property.v, a, b, diffOf)
+    },
+    equals:(sample:Tuple, a:unknown[], b:unknown[], equalsOf:EqualsOf) => {
+      return a.length === b.length && a.every((x, i) => equalsOf(sample.fields[i]!.property.v, x, b[i]))
+    },
+    hash:(sample:Tuple, value:unknown[], hashOf:HashOf) => {
+      return combineHashes(value.map((x, i) => hashOf(sample.fields[i]!.property.v, x)))
+    },
+    arbitrary:(sample:Tuple, property:Property<unknown[]>, a:Arbitrary) => {
+      const result:unknown[] = []
+      for (const f of sample.fields) {
+        if (f.property.required !== undefined && f.property.required !== true && a.random() < 0.5) break
+        result.push(a.of(f.property.v, f.property))
+      }
+      return result
+    },
+    jsonSchema:(sample:Tuple, schemaOf:(sample:unknown, property?:Property<any>)=>JsonSchema) => {
+      return {
+        type:"array",
+        prefixItems:sample.fields.map(f => schemaOf(f.property.v, f.property)),
+        items:false,
+        minItems:sample.min,
+        maxItems:sample.fields.length,
+      }
+    }
+  },
+  {
+    name:"union",
+    priority:100_000_000,
+    appliesTo:(v:unknown) => v instanceof Union,
+    defaultTo:(sample:Union) => sample.samples[0],
+    mismatch:(json:unknown, sample:unknown) => {
+      if ((sample as Union).samples.some(x => json instanceof x.constructor)) return true
+      const t = typeOf(json)
+      if (t !== "object") {
+        return { expected:"object", got:t }
+      }
+      return false
+    },
+    parse:(prefix:string, sample:Union, json:unknown, path:Path) => {
+      const object = json as InputJSON
+      if (sample.key !== undefined) {
+        const keyPrefix = prefix + "." + sample.key
+        const keyPath = [...path, sample.key]
+        const value = object[sample.key]
+        if (value === undefined || value === null) {
+          return failure([new Fail(keyPrefix, REQ, "missing required property", {}, keyPath)])
+        }
+        const variant = sample.samples.find(x => (x as any)[sample.key!] === value)
+        if (variant === undefined) {
+          const valid = sample.samples.map(x => (x as any)[sample.key!])
+          return failure([new Fail(keyPrefix, ALLOWED, `invalid value: ${value} - valid values are: ${valid}`, { actual:value, allowed:valid }, keyPath)])
+        }
+        return run2(variant.constructor as never, prefix, path, object)
+      }
+      const messages:string[] = []
+      for (const [i, variant] of sample.samples.entries()) {
+        const r = run2(variant.constructor as never, prefix, path, object)
+        if (r.success) return r
+        messages.push(`variant ${i} (${r.fail.prefix}: ${r.fail.message})`)
+      }
+      return failure([new Fail(prefix, UNION, "no variant matched: " + messages.join(", "), {}, path)])
+    },
+    encode:(sample:Union, value:Base) => {
+      return encodeObject(value.constructor as never, value)
+    },
+    diff:(prefix:string, sample:Union, a:Base, b:Base, diffOf:DiffOf, path:Path) => {
+      if (a.constructor === b.constructor) return diffObject(a.constructor as never, prefix, path, a, b, diffOf)
+      return [new Change(prefix, "changed", encodeObject(a.constructor as never, a), encodeObject(b.constructor as never, b), false, path)]
+    },
+    equals:(sample:Union, a:Base, b:Base, equalsOf:EqualsOf) => {
+      return sameObject(a.constructor as never, a, b, equalsOf)
+    },
+    hash:(sample:Union, value:Base, hashOf:HashOf) => {
+      return hashObject(value.constructor as never, value, hashOf)
+    },
+    arbitrary:(sample:Union, property:Property<Base>, a:Arbitrary) => {
+      return arbitraryObject(sample.samples[a.int(0, sample.samples.length - 1)]!.constructor as never, a)
+    },
+    jsonSchema:(sample:Union, schemaOf:(sample:unknown)=>JsonSchema) => {
+      const schemas = sample.samples.map(x => schemaOf(x))
+      return sample.key === undefined ? { anyOf:schemas } : { oneOf:schemas }
     }
   },
+  {
+    name:"bigint",
+    priority:50_000_000,
+    appliesTo:(v:unknown) => typeof(v) === "bigint",
+    defaultTo:(sample:bigint) => sample,
+    mismatch:(json:unknown) => {
+      if (typeof(json) === "bigint") return true
+      if (scope.coerce && typeof(json) === "string") return false
+      return { expected:scope.coerce ? "bigint string" : "bigint", got:typeOf(json) }
+    },
+    parse:(prefix:string, sample:bigint, json:string, path:Path) => {
+      if (!/^-?[0-9]+$/.test(json)) {
+        return failure([new Fail(prefix, TYPE, `invalid bigint string: ${json}`, { expected:"bigint string", actual:json }, path)])
+      }
+      return { success:true, result:BigInt(json) }
+    },
+    encode:(sample:bigint, value:bigint) => value.toString(),
+    arbitrary:(sample:bigint, property:Property<bigint>, a:Arbitrary) => {
+      const min = property.min as bigint|undefined
+      const max = property.max as bigint|undefined
+      const lo = min ?? (max ?? sample) - BigInt(100)
+      const hi = max ?? lo + BigInt(200)
+      const span = Math.min(Number(hi - lo), 1_000_000)
+      return (lo + BigInt(a.int(0, span))).toString()
+    },
+    jsonSchema:() => ({ type:"string", pattern:"^-?[0-9]+$" })
+  },
+  {
+    name:"date",
+    priority:50_000_000,
+    appliesTo:(v:unknown) => v instanceof Date,
+    defaultTo:(sample:Date) => new Date(sample.getTime()),
+    mismatch:(json:unknown) => {
+      if (json instanceof Date) return true
+      if (scope.coerce && (typeof(json) === "string" || typeof(json) === "number")) return false
+      return { expected:scope.coerce ? "date string or number" : "Date", got:typeOf(json) }
+    },
+    parse:(prefix:string, sample:Date, json:string|number, path:Path) => {
+      const iso = typeof(json) === "number" || isIsoDate(json)
+      const result = new Date(json)
+      if (!iso || isNaN(result.getTime())) {
+        return failure([new Fail(prefix, TYPE, `invalid date: ${json}`, { expected:"date", actual:json }, path)])
+      }
+      return { success:true, result }
+    },
+    encode:(sample:Date, value:Date) => value.toISOString(),
+    arbitrary:(sample:Date, property:Property<Date>, a:Arbitrary) => {
+      const year = 365 * 24 * 60 * 60 * 1000
+      const lo = property.min?.getTime() ?? (property.max?.getTime() ?? sample.getTime()) - year
+      const hi = property.max?.getTime() ?? lo + 2 * year
+      return new Date(a.int(lo, hi)).toISOString()
+    },
+    jsonSchema:() => ({ type:"string", format:"date-time" })
+  },
   {
     name:"default",
     priority:0,
@@ -161,19 +599,62 @@ const types:Type<any>[] = [
       const expected = typeOf(v)
       const got = typeOf(json)
       if (expected !== got) {
-        return `expected ${expected} but got ${got}`
+        return { expected, got }
       }
       return false
     },
     parse:(prefix:string, sample:unknown, json:unknown) => {
       return { success:true, result:json }
+    },
+    encode:(sample:unknown, value:unknown) => encodeDefault(value),
+    arbitrary:(sample:unknown, property:Property<any>, a:Arbitrary) => {
+      if (typeof(sample) === "number") return arbitraryNumber(property, a)
+      if (typeof(sample) === "string") return arbitraryString(property, a)
+      if (typeof(sample) === "boolean") return a.random() < 0.5
+      return encodeDefault(sample)
+    },
+    jsonSchema:(sample:unknown) => {
+      const t = typeOf(sample)
+      if (t === "string" || t === "number" || t === "boolean" || t === "object") {
+        return { type:t }
+      }
+      return {}
     }
   },
 ]
 
+interface Settings {
+  types:Type<any>[]
+  skip:boolean
+  all:boolean
+  coerce:boolean
+  warn:(message:string)=>void
+  augment:(o:O)=>O
+}
+
+const settingsOf = (types:Type<any>[]):Settings => ({
+  types,
+  skip:true,
+  all:false,
+  coerce:true,
+  warn:console.warn,
+  augment:o => o,
+})
+
+const defaults = settingsOf([...builtins])
+
+// the context that define registers new classes in
+let context = defaults
+// the settings in effect for the object being processed
+let scope = defaults
+
+const register = <T>(settings:Settings, type:Type<T>):void => {
+  settings.types.push(type)
+  settings.types.sort((a,b) => b.priority - a.priority)
+}
+
 export const addType = <T>(type:Type<T>):void => {
-  types.push(type)
-  types.sort((a,b) => b.priority - a.priority)
+  register(defaults, type)
 }
 
 
@@ -191,6 +672,7 @@ T extends BigInt ? BigInt :
 T extends Length ? number :
 T extends Size ? number :
 T extends Date ? Date :
+T extends Record<string,unknown> ? number :
 undefined
 
 type Required = true | false | "default" 
@@ -206,6 +688,13 @@ export interface Property<T> {
   integer?:boolean
   regex?:RegExp
   custom?:Checker<T>
+  customAsync?:AsyncChecker<T>
+  transform?:Transform<T>
+}
+
+export interface Transform<T> {
+  before?:(v:T)=>T
+  after?:(v:T)=>T
 }
 
 interface Optimized<T> {
@@ -217,6 +706,7 @@ interface Optimized<T> {
 
 
 export type Checker<T> = (v:T)=>Fail|undefined
+export type AsyncChecker<T> = (v:T)=>Promise<Fail|undefined>
 
 const hasProp = (value:any, prop:string):boolean => {
   if (value instanceof Set) {
@@ -229,26 +719,34 @@ const minChecker = <T>(name:string, sample:T, min:Limit<T>|undefined):Checker<T>
   if (min === undefined) {
     return undefined
   }
+  if (sample instanceof Dictionary) {
+    return (value:T) => {
+      const size = entriesOf(value as object).length
+      if (size < (min as number)) {
+        return new Fail(name, MIN, `size of ${size} < minimum size of ${min}`, { limit:min, actual:size, unit:"size" })
+      }
+    }
+  }
   if ((typeof(sample) === "string") || hasProp(sample, "length")) {
     return (value:T) => {
       const length = (value as Length).length
       if (length < (min as number)) {
-        return new Fail(name, MIN, `length of ${length} < minimum length of ${min}`)
+        return new Fail(name, MIN, `length of ${length} < minimum length of ${min}`, { limit:min, actual:length, unit:"length" })
       }
     }
   }
   if (hasProp(sample, "size")) {
     return (value:T) => {
-      const size = Array.isArray(value) ? value.length : (value as Size).size
+      const size = (value as Size).size
       console.log("minCheck", value, size, min)
       if (size < (min as number)) {
-        return new Fail(name, MIN, `size of ${size} < minimum size of ${min}`)
+        return new Fail(name, MIN, `size of ${size} < minimum size of ${min}`, { limit:min, actual:size, unit:"size" })
       }
     }
   }
   return (value:T) => {
     if (value < min) {
-      return new Fail(name, MIN, `value of ${value} < minimum value of ${min}`)
+      return new Fail(name, MIN, `value of ${value} < minimum value of ${min}`, { limit:min, actual:value, unit:"value" })
     }
   }
 }
@@ -257,25 +755,33 @@ const maxChecker = <T>(name:string, sample:T, max:Limit<T>|undefined):Checker<T>
   if (max === undefined) {
     return undefined
   }
+  if (sample instanceof Dictionary) {
+    return (value:T) => {
+      const size = entriesOf(value as object).length
+      if (size > (max as number)) {
+        return new Fail(name, MAX, `size of ${size} > maximum size of ${max}`, { limit:max, actual:size, unit:"size" })
+      }
+    }
+  }
   if ((typeof(sample) === "string") || hasProp(sample, "length")) {
     return (value:T) => {
       const length = (value as Length).length
       if (length > (max as number)) {
-        return new Fail(name, MAX, `length of ${length} > maximum length of ${max}`)
+        return new Fail(name, MAX, `length of ${length} > maximum length of ${max}`, { limit:max, actual:length, unit:"length" })
       }
     }
   }
   if (hasProp(sample, "size")) {
     return (value:T) => {
-      const size = Array.isArray(value) ? value.length : (value as Size).size
+      const size = (value as Size).size
       if (size > (max as number)) {
-        return new Fail(name, MAX, `size of ${size} > maximum size of ${max}`)
+        return new Fail(name, MAX, `size of ${size} > maximum size of ${max}`, { limit:max, actual:size, unit:"size" })
       }
     }
   }
   return (value:T) => {
     if (value > max) {
-      return new Fail(name, MAX, `value of ${value} > maximum value of ${max}`)
+      return new Fail(name, MAX, `value of ${value} > maximum value of ${max}`, { limit:max, actual:value, unit:"value" })
     }
   }
 }
@@ -287,7 +793,7 @@ const allowedChecker = <T>(name:string, allowed:readonly T[]|undefined):Checker<
   const set = new Set(allowed)
   return (value:T) => {
     if (!set.has(value)) {
-      return new Fail(name, ALLOWED, `invalid value: ${value} - valid values are: ${allowed}`)
+      return new Fail(name, ALLOWED, `invalid value: ${value} - valid values are: ${allowed}`, { actual:value, allowed })
     }
   }
 }
@@ -298,7 +804,7 @@ const regexChecker = <T>(name:string, regex:RegExp|undefined):Checker<T>|undefin
   }
   return (value:T) => {
     if (!regex.test(String(value))) {
-      return new Fail(name, REGEX, `invalid value: ${value} - must match ${regex}`)
+      return new Fail(name, REGEX, `invalid value: ${value} - must match ${regex}`, { actual:value, regex:regex.source })
     }
   }
 }
@@ -311,7 +817,7 @@ const integerChecker = <T>(name:string, sample:T, integer:boolean|undefined):Che
   if (typeof sample !== "number") return undefined
   return (value:T) => {
     if (!Number.isSafeInteger(value)) {
-      return new Fail(name, INTEGER, `value of ${value} is not a safe integer`)
+      return new Fail(name, INTEGER, `value of ${value} is not a safe integer`, { actual:value })
     }
   }
 }
@@ -325,6 +831,7 @@ interface Field<T> {
 type Fields<T extends object> = {[P in keyof T]: Field<T[P]>}
 
 const symbol = Symbol("Check_metadata")
+const extrasSymbol = Symbol("Check_extras")
 
 const optimize = <T>(name:string, sample:T, p:Property<T>):Optimized<T> => {
   const required = p.required ?? true
@@ -376,49 +883,120 @@ export type Out<S extends Schema> =
 
 export type Class<S extends Schema> = new(fields:In<S>)=>Out<S>
 
+declare const schemaType:unique symbol
+
+export interface Defined<S extends Schema> {
+  readonly [schemaType]?:S
+}
+
+export type UnknownPolicy = "strip" | "reject" | "keep"
+
+export interface Options {
+  skipInvalidObjects?:boolean
+  collectAllFails?:boolean
+  coerceTypes?:boolean
+  warn?:(message:string)=>void
+  augment?:(o:O)=>O
+}
+
+export type Migration = (json:InputJSON)=>InputJSON
+
+export interface Migrations {
+  key:string
+  steps:Record<number,Migration>
+}
+
+export interface ClassOptions<S extends Schema> extends Options {
+  name?:string
+  checks?:Checker<Out<S>>[]
+  unknown?:UnknownPolicy
+  freeze?:boolean
+  setters?:boolean
+  migrations?:Migrations
+}
+
+interface Migrator {
+  key:string
+  first:number
+  current:number
+  steps:Record<number,Migration>
+}
+
 interface Metadata<S extends Schema> {
   cls: Class<S>
   fields: Fields<S>
   sample: Out<S>
+  checks: Checker<Out<S>>[]
+  unknown: UnknownPolicy
+  freeze: boolean
+  setters: boolean
+  migrator: Migrator|undefined
+  context: Settings
+  options: Options
+}
+
+const migratorOf = (schema:Schema, migrations:Migrations|undefined):Migrator|undefined => {
+  if (migrations === undefined) return undefined
+  const { key, steps } = migrations
+  const versions = Object.keys(steps).map(Number).sort((a,b) => a - b)
+  const first = versions[0]!
+  const current = first + versions.length
+  if (versions.length === 0 || versions.some((x, i) => !Number.isSafeInteger(x) || x !== first + i)) {
+    throw new TypeError("migration steps must be consecutive integer versions")
+  }
+  if (schema[key]?.v !== current) {
+    throw new TypeError(`the sample of ${key} must be the current version ${current}`)
+  }
+  return { key, first, current, steps }
 }
 
-export const define = <S extends Schema>(schema:S):Base&Class<S> => {
+export const define = <S extends Schema>(schema:S, options:ClassOptions<S> = {}):Base&Class<S>&Defined<S> => {
   type K = keyof S
   const fields:Partial<Record<K,Field<S[K]["v"]>>> = {}
-  const sample:Partial<Record<K,S[K]["v"]>> = {}  
+  const sample:Partial<Record<K,S[K]["v"]>> = {}
   for (const k in schema) {
     const prop = schema[k]!
     sample[k] = prop.v
     fields[k] = {
       property: prop,
       check: toFunction(k, prop),
-      type: types.find(x => x.appliesTo(prop.v))!
+      type: context.types.find(x => x.appliesTo(prop.v))!
     }
   }
   const cls = class extends Base {
     constructor(input:InputJSON) {
       super();
-      if (unsafe) {
+      const trusted = unsafe
+      unsafe = false
+      if (trusted) {
         Object.assign(this, input)
       } else {
         const r = Check.run(cls, input)
-        if (!r.success) throw new CheckError(r.fail)
+        if (!r.success) throw new CheckError(r.fail, r.fails)
         Object.assign(this, r.result)
       }
-      const result = augment(this)
+      const result = scopeOf(metadata).augment(this)
+      if (!trusted) finish(metadata, result as Base)
       /* v8 ignore next */
       return result
     }
   }
-  const metadata:Metadata<S> = { 
+  const { name, checks, unknown, freeze, setters, migrations, ...scoped } = options
+  Object.defineProperty(cls, "name", { value:name ?? "Object" })
+  const metadata:Metadata<S> = {
     fields: fields as never,
     sample: null as never,
     cls: cls as never,
+    checks: checks ?? [],
+    unknown: unknown ?? "strip",
+    freeze: freeze ?? false,
+    setters: setters ?? false,
+    migrator: migratorOf(schema, migrations),
+    context,
+    options: Object.keys(scoped).length > 0 ? scoped : noOptions,
   };
   (cls as any)[symbol] = metadata
-  unsafe = true
-  metadata.sample = new cls(sample) as never
-  unsafe = false;
+  metadata.sample = trust(cls, sample) as never
   return cls as never
 }
 
@@ -426,15 +1004,30 @@ const metadata = <S extends Schema,C extends Class<S>>(cls:C):Metadata<S> => {
   return (cls as any)[symbol]
 }
 
+const isField = <S extends Schema>(md:Metadata<S>, k:string):boolean => {
+  return Object.prototype.hasOwnProperty.call(md.fields, k)
+}
+
+const keep = (kept:InputJSON, k:string, value:unknown):void => {
+  Object.defineProperty(kept, k, { value, enumerable:true, writable:true, configurable:true })
+}
+
+const trust = <R>(cls:new(fields:never)=>R, input:object):R => {
+  unsafe = true
+  try {
+    return new cls(input as never)
+  } finally {
+    unsafe = false
+  }
+}
+
 export const sample = <R extends Base,T extends object>(cls:new(fields:T)=>R):R => {
   const md = metadata(cls as never)
   if (!cls.hasOwnProperty(symbol)) {
-    unsafe = true
-    const newSample = new cls(md.sample as never)
-    unsafe = false
+    const newSample = trust(cls, md.sample)
     const newMD = {
+      ...md,
       cls,
-      fields: md.fields,
       sample: newSample
     };
     (cls as any)[symbol] = newMD;
@@ -443,134 +1036,1707 @@ export const sample = <R extends Base,T extends object>(cls:new(fields:T)=>R):R
   return md.sample as R
 }
 
-export const recurse = <R extends Base,T extends object,K extends keyof R>(cls:new(fields:T)=>R, key:K, value:R[K]) => {
-  const s = sample(cls)
-  s[key] = value
-  const md = metadata(cls as never)
-  const field = md.fields[key as never]!
-  field.property.v = value as never
-  field.check = toFunction(key as never, field.property)
-  field.type = types.find(x => x.appliesTo(value))!
+const entriesOf = (object:object):[string,unknown][] => {
+  return object instanceof Map ? [...object.entries()] : Object.entries(object)
 }
 
-const run2 = <S extends Schema,T extends Out<S>>(cls:Class<S>, objectPrefix:string, json:InputJSON):Success<T>|Failure => {
-  if (json instanceof Base) return { success:true, result:json as T }
-  type K = keyof T
-  if (objectPrefix !== "") objectPrefix += "."
-  const md = metadata<S,Class<S>>(cls)
-  const sample = md.sample as any
-  const result:InputJSON = {}
-  for (const k in md.fields) {
-    const prefix = objectPrefix + k
-    try {
-      const field = md.fields[k]
-      const prop = field.property
-      const sampleValue = sample[k]
-      let value = json[k]
-      const missing = value === undefined || value === null
-      if (prop.required === false && missing) {
-        continue
-      } 
-      if (prop.required !== false) {
-        if (missing) {
-          if (prop.required === "default") {
-            value = field.type.defaultTo(sampleValue)
-          } else {
-            return { success:false, fail: new Fail(prefix, REQ, "missing required property") }
-          }
-        }
-      }
-      if (prop.allowed !== undefined && prop.fallback !== undefined) {
-        if (prop.allowed.indexOf(value as never) < 0) {
-          value = prop.fallback
-        }
-      }
-      const mm = field.type.mismatch(value, sampleValue)
-      if (typeof(mm) === "string") {
-        return { success:false, fail:new Fail(prefix, TYPE, mm) }
-      }
-      const fails = field.check(value as never)
-      if (fails.length > 0) {
-        return { success:false, fail:fails[0]!.withPrefix(prefix) }
-      }
-      if (mm) {
-        result[k] = value
-        continue
-      }
-      const r = field.type.parse(prefix, sampleValue, value)
-      if (r.success) {
-        result[k] = r.result
-      } else if (sampleValue instanceof Base && prop.required === false) {
-        warn(`skipping nested object ${r.fail.prefix} - ${r.fail.message}`)
-      } else {
-        return r
-      }
-      /* v8 ignore next 4 */
-    } catch (e:any) {
-      const msg = "message" in e ? e.message : "unknown error"
-      return { success:false, fail:new Fail(prefix, UNKNOWN, e.message) }
-    }
+export type KeyProperty = Omit<Property<string>, "v"|"required"|"readonly"|"fallback"|"customAsync"|"transform">
+
+class Dictionary {
+  readonly check:(key:string)=>Fail[]
+  constructor(
+    readonly isMap:boolean,
+    readonly v:unknown,
+    readonly keys:KeyProperty
+  ) {
+    this.check = toFunction("", { ...keys, v:"" })
   }
-  unsafe = true
-  const r = new cls(result as never)
-  unsafe = false
-  return { success:true, result:r as T }
-}
 
-export const run = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON):Success<R>|Failure => {
-  return run2(cls as never, "", json)
+  make(entries:[string,unknown][]):object {
+    return this.isMap ? new Map(entries) : Object.fromEntries(entries)
+  }
 }
 
-export const raise = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON):R => {
-  const r = run(cls, json)
-  if (r.success) return r.result
-  throw new CheckError(r.fail)
+export const map = <V>(v:V, keys:KeyProperty = {}):Map<string,V> => {
+  return new Dictionary(true, v, keys) as never
 }
 
-export const parse = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string):R => {
-  const r = run(cls, JSON.parse(json))
-  if (r.success) {
-    return r.result
-  } else {
-    throw new CheckError(r.fail)
-  }
+export const record = <V>(v:V, keys:KeyProperty = {}):Record<string,V> => {
+  return new Dictionary(false, v, keys) as never
 }
 
-export const parseCollection = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string, sink:(element:R)=>void):void => {
-  const a = JSON.parse(json)
-  if (!Array.isArray(a)) {
-    throw new TypeError("expected input array but got " + typeof(a))
-  }
-  for (const x of a) {
-    const r = run(cls, x)
-    if (r.success) sink(r.result)
-    else throw new CheckError(r.fail)
+class Tuple {
+  readonly fields:Field<any>[]
+  readonly min:number
+  constructor(properties:Property<any>[]) {
+    this.fields = properties.map(p => ({
+      property: p,
+      check: toFunction("", p),
+      get type() { return scope.types.find(x => x.appliesTo(p.v))! },
+    }))
+    this.min = 0
+    let rank = 0
+    for (let i = 0; i < properties.length; i++) {
+      const required = properties[i]!.required ?? true
+      const r = required === true ? 0 : required === "default" ? 1 : 2
+      if (r < rank) throw new TypeError(`tuple element [${i}] can't follow an optional one`)
+      rank = r
+      if (required === true) this.min = i + 1
+    }
   }
 }
 
-export const parseArray = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string) => {
-  const result:R[] = []
-  parseCollection(cls, json, x => { result.push(x) })
-  return result
+type TupleOf<P extends Property<any>[]> =
+  P extends [infer H extends Property<any>, ...infer R extends Property<any>[]]
+  ? H["required"] extends false ? [H["v"]?, ...TupleOf<R>] : [H["v"], ...TupleOf<R>]
+  : []
+
+export const tuple = <P extends Property<any>[]>(...properties:P):TupleOf<P> => {
+  return new Tuple(properties) as never
 }
 
-export const runOne = <R extends Base,T extends object,K extends keyof R>(cls:new(fields:T)=>R, object:R, k:K, v:R[K]):Fail[] => {
-  const field = metadata(cls as never).fields[k as never]
-  return field!.check(v as never)
+class Union {
+  constructor(
+    readonly key:string|undefined,
+    readonly samples:Base[]
+  ) {}
 }
 
-type O = Record<string,any>
+export const union = <C extends (new(fields:any)=>Base)[]>(classes:[...C], key?:string):InstanceType<C[number]> => {
+  return new Union(key, classes.map(x => sample(x))) as never
+}
 
-let augment:(o:O)=>O = o => o
+export const recurse = <R extends Base,T extends object,K extends keyof R>(cls:new(fields:T)=>R, key:K, value:R[K]) => {
+  const s = sample(cls)
+  s[key] = value
+  const md = metadata(cls as never)
+  const field = md.fields[key as never]!
+  field.property.v = value as never
+  field.check = toFunction(key as never, field.property)
+  field.type = md.context.types.find(x => x.appliesTo(value))!
+}
 
-export const augmentWith = (f:(o:O)=>O) => {
-  augment = f
+const lock = (object:object, methods:string[]):void => {
+  for (const m of methods) {
+    Object.defineProperty(object, m, { value:() => { throw new TypeError(`can't ${m} on a frozen ${object.constructor.name}`) }})
+  }
 }
 
-let warn:(message:string)=>void = console.warn
+const deepFreeze = (value:unknown):void => {
+  if (typeof(value) !== "object" || value === null || Object.isFrozen(value)) return
+  if (value instanceof Set) lock(value, ["add", "delete", "clear"])
+  if (value instanceof Map) lock(value, ["set", "delete", "clear"])
+  if (value instanceof Date) lock(value, Object.getOwnPropertyNames(Date.prototype).filter(x => x.startsWith("set")))
+  if (value instanceof Base) {
+    for (const k of Object.keys(value)) {
+      const d = Object.getOwnPropertyDescriptor(value, k)!
+      if (d.get) Object.defineProperty(value, k, { value:d.get(), enumerable:true })
+    }
+  }
+  Object.freeze(value)
+  const children = value instanceof Map ? [...value.values()] : value instanceof Set ? [...value] : Object.values(value)
+  for (const child of children) deepFreeze(child)
+}
+
+const installSetters = <S extends Schema>(md:Metadata<S>, object:Base):void => {
+  for (const k in md.fields) {
+    let value = (object as any)[k]
+    const set = md.fields[k].property.readonly ? undefined : (v:unknown) => {
+      const r = run2(object.constructor as never, "", [], { ...object, [k]:v })
+      if (!r.success) throw new CheckError(r.fail, r.fails)
+      value = (r.result as any)[k]
+    }
+    Object.defineProperty(object, k, { enumerable:true, get:() => value, set })
+  }
+}
+
+const finish = <S extends Schema>(md:Metadata<S>, object:Base):void => {
+  if (md.freeze) deepFreeze(object)
+  else if (md.setters) installSetters(md, object)
+}
+
+const objectChecks = <S extends Schema>(md:Metadata<S>, objectPrefix:string, objectPath:Path, object:Out<S>):Fail[] => {
+  const fails:Fail[] = []
+  for (const check of md.checks) {
+    if (!scope.all && fails.length > 0) break
+    let fail:Fail|undefined
+    try {
+      fail = check(object)
+    } catch (e) {
+      fail = new Fail("", UNKNOWN, e instanceof Error ? e.message : "unknown error")
+    }
+    if (fail === undefined) continue
+    const prefix = fail.prefix === "" ? objectPrefix.slice(0, -1) : objectPrefix + fail.prefix
+    fails.push(fail.withPrefix(prefix, [...objectPath, ...fail.path]))
+  }
+  return fails
+}
+
+const runField = (field:Field<any>, sampleValue:unknown, k:string, prefix:string, path:Path, json:InputJSON, result:InputJSON, fails:Fail[]):void => {
+  try {
+    let value = json[k]
+    const prop = field.property
+    const missing = value === undefined || value === null
+    if (prop.required === false && missing) {
+      return
+    } 
+    if (prop.required !== false) {
+      if (missing) {
+        if (prop.required === "default") {
+          value = field.type.defaultTo(sampleValue)
+        } else {
+          fails.push(new Fail(prefix, REQ, "missing required property", {}, path))
+          return
+        }
+      }
+    }
+    const fallback = prop.allowed !== undefined && prop.fallback !== undefined
+    const mm = field.type.mismatch(value, sampleValue)
+    if (isMismatch(mm)) {
+      if (!fallback) {
+        fails.push(typeFail(prefix, path, mm))
+        return
+      }
+      value = prop.fallback
+    } else if (!mm) {
+      const r = field.type.parse(prefix, sampleValue, value, path)
+      if (!r.success) {
+        if (sampleValue instanceof Base && prop.required === false) {
+          skipItem("nested object", prefix, value, r.fail)
+        } else {
+          fails.push(...failsOf(r))
+        }
+        return
+      }
+      value = r.result
+    }
+    const transform = prop.transform
+    if (transform?.before) value = transform.before(value as never)
+    if (fallback && prop.allowed!.indexOf(value as never) < 0) value = prop.fallback
+    const checkFails = field.check(value as never)
+    if (checkFails.length > 0) {
+      fails.push(...checkFails.map(x => x.withPrefix(prefix, path)))
+      return
+    }
+    result[k] = transform?.after ? transform.after(value as never) : value
+  } catch (e) {
+    fails.push(new Fail(prefix, UNKNOWN, e instanceof Error ? e.message : "unknown error", {}, path))
+  }
+}
+
+const construct = <S extends Schema,T extends Out<S>>(md:Metadata<S>, cls:Class<S>, objectPrefix:string, objectPath:Path, result:InputJSON, kept:InputJSON|undefined, fails:Fail[]):Success<T>|Failures => {
+  if (fails.length > 0) return failure(fails)
+  const r = trust(cls, result) as Out<S>
+  if (kept !== undefined) Object.defineProperty(r, extrasSymbol, { value:kept })
+  fails.push(...objectChecks(md, objectPrefix, objectPath, r))
+  if (fails.length > 0) return failure(fails)
+  finish(md, r)
+  return { success:true, result:r as T }
+}
+
+const run2 = <S extends Schema,T extends Out<S>>(cls:Class<S>, objectPrefix:string, objectPath:Path, json:InputJSON):Success<T>|Failures => {
+  if (json instanceof Base) return { success:true, result:json as T }
+  const md = metadata<S,Class<S>>(cls)
+  return inScope(md, () => runObject(md, cls, objectPrefix, objectPath, json))
+}
+
+const migrate = (m:Migrator, objectPrefix:string, objectPath:Path, json:InputJSON):Success<InputJSON>|Failures => {
+  const prefix = objectPrefix + m.key
+  const path = [...objectPath, m.key]
+  const version = json[m.key] ?? m.first
+  if (typeof(version) !== "number" || !Number.isSafeInteger(version) || version < m.first || version > m.current) {
+    return failure([new Fail(prefix, MIGRATION, `unknown version ${version}`, { actual:version, limit:m.current }, path)])
+  }
+  let result = json
+  for (let v = version; v < m.current; v++) {
+    const params = { from:v, to:v + 1 }
+    try {
+      const migrated = m.steps[v]!({ ...result })
+      if (!isPlain(migrated)) {
+        return failure([new Fail(prefix, MIGRATION, `migration from version ${v} didn't return an object`, params, path)])
+      }
+      result = { ...migrated, [m.key]:v + 1 }
+    } catch (e:any) {
+      return failure([new Fail(prefix, MIGRATION, `migration from version ${v} failed: ${e instanceof Error ? e.message : "unknown error"}`, params, path)])
+    }
+  }
+  return { success:true, result }
+}
+
+const runObject = <S extends Schema,T extends Out<S>>(md:Metadata<S>, cls:Class<S>, objectPrefix:string, objectPath:Path, json:InputJSON):Success<T>|Failures => {
+  if (objectPrefix !== "") objectPrefix += "."
+  if (md.migrator !== undefined && json !== null && json !== undefined) {
+    const m = migrate(md.migrator, objectPrefix, objectPath, json)
+    if (!m.success) return m
+    json = m.result
+  }
+  return runFields(md, cls, objectPrefix, objectPath, json, {}, 0)
+}
+
+const runFields = <S extends Schema,T extends Out<S>>(md:Metadata<S>, cls:Class<S>, objectPrefix:string, objectPath:Path, json:InputJSON, result:InputJSON, from:number):Success<T>|Failures => {
+  const keys = Object.keys(md.fields)
+  const fails:Fail[] = []
+  for (let i = from; i < keys.length; i++) {
+    if (!scope.all && fails.length > 0) break
+    const k = keys[i]!
+    runField(md.fields[k]!, (md.sample as any)[k], k, objectPrefix + k, [...objectPath, k], json, result, fails)
+  }
+  const policy = call.unknown ?? md.unknown
+  const kept:InputJSON = {}
+  if (policy !== "strip") {
+    for (const k of Object.keys(json ?? {})) {
+      if (isField(md, k)) continue
+      if (policy === "keep") keep(kept, k, json[k])
+      else fails.push(new Fail(objectPrefix + k, UNEXPECTED, "unexpected property", {}, [...objectPath, k]))
+    }
+  }
+  return construct(md, cls, objectPrefix, objectPath, result, policy === "keep" ? kept : undefined, fails)
+}
+
+export interface RunOptions extends Options {
+  unknown?:UnknownPolicy
+}
+
+const noOptions:RunOptions = {}
+
+let call = noOptions
+
+const scopeOf = (md:Metadata<any>):Settings => {
+  const o = md.options
+  const c = md.context
+  if (call === noOptions && o === noOptions) return c
+  return {
+    types:c.types,
+    skip:call.skipInvalidObjects ?? o.skipInvalidObjects ?? c.skip,
+    all:call.collectAllFails ?? o.collectAllFails ?? c.all,
+    coerce:call.coerceTypes ?? o.coerceTypes ?? c.coerce,
+    warn:call.warn ?? o.warn ?? c.warn,
+    augment:call.augment ?? o.augment ?? c.augment,
+  }
+}
+
+const inScope = <T>(md:Metadata<any>, f:()=>T):T => {
+  const saved = scope
+  scope = scopeOf(md)
+  try {
+    return f()
+  } finally {
+    scope = saved
+  }
+}
+
+const within = <T>(cls:unknown, options:RunOptions, f:()=>T):T => {
+  const saved = call
+  if (Object.keys(options).length > 0) call = { ...call, ...options }
+  try {
+    return inScope(metadata(cls as never), f)
+  } finally {
+    call = saved
+  }
+}
+
+let warned:boolean|undefined
+
+const warn = (message:string):void => {
+  if (warned === undefined) scope.warn(message)
+  else warned = true
+}
+
+export interface Skipped {
+  prefix:string
+  input:unknown
+  fail:Fail
+}
+
+let skipped:Skipped[]|undefined
+
+const skipItem = (what:string, prefix:string, input:unknown, fail:Fail):void => {
+  if (warned === undefined) skipped?.push({ prefix, input, fail })
+  warn(`skipping ${what} ${fail.prefix} - ${fail.message}`)
+}
+
+export const run = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON, options:RunOptions = {}):Success<R>|Failures => {
+  return within(cls, options, () => run2(cls as never, "", [], json))
+}
+
+export interface Report<R> extends Success<R> {
+  skipped:Skipped[]
+}
+
+export const runReport = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON, options:RunOptions = {}):Report<R>|Failures => {
+  const saved = skipped
+  const report:Skipped[] = []
+  skipped = report
+  try {
+    const r = run(cls, json, options)
+    return r.success ? { ...r, skipped:report } : r
+  } finally {
+    skipped = saved
+  }
+}
+
+export const raise = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON, options:RunOptions = {}):R => {
+  const r = run(cls, json, options)
+  if (r.success) return r.result
+  throw new CheckError(r.fail, r.fails)
+}
+
+export const parse = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string, options:RunOptions = {}):R => {
+  const r = run(cls, JSON.parse(json), options)
+  if (r.success) {
+    return r.result
+  } else {
+    throw new CheckError(r.fail, r.fails)
+  }
+}
+
+const isPlain = (v:unknown):v is InputJSON => {
+  return typeof(v) === "object" && v !== null && Object.getPrototypeOf(v) === Object.prototype
+}
+
+const copyOf = (value:unknown):unknown => {
+  if (value instanceof Base) {
+    const md = metadata(value.constructor as never)
+    const fields:InputJSON = {}
+    for (const k in md.fields) {
+      const x = (value as any)[k]
+      if (x !== undefined) fields[k] = copyOf(x)
+    }
+    const r = trust(value.constructor as never, fields) as Base
+    const kept = extras(value)
+    if (kept !== undefined) Object.defineProperty(r, extrasSymbol, { value:{ ...kept }})
+    finish(md, r)
+    return r
+  }
+  if (Array.isArray(value)) return value.map(copyOf)
+  if (value instanceof Set) return new Set([...value].map(copyOf))
+  if (value instanceof Map) return new Map([...value].map(([k, v]) => [k, copyOf(v)]))
+  if (value instanceof Date) return new Date(value.getTime())
+  if (isPlain(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, copyOf(v)]))
+  return value
+}
+
+const patchArray = (prefix:string, path:Path, current:unknown[], changes:InputJSON, fails:Fail[]):unknown[] => {
+  const result = current.map(copyOf)
+  for (const key of Object.keys(changes)) {
+    if (!scope.all && fails.length > 0) break
+    const elementPrefix = prefix + "[" + key + "]"
+    const i = Number(key)
+    if (!/^[0-9]+$/.test(key) || i >= current.length) {
+      fails.push(new Fail(elementPrefix, UNEXPECTED, "no element at index " + key, {}, [...path, key]))
+      continue
+    }
+    const element = current[i]
+    const change = changes[key]
+    if (element instanceof Base && isPlain(change)) {
+      const r = patch2(element.constructor as never, elementPrefix, [...path, i], element, change)
+      if (r.success) result[i] = r.result
+      else fails.push(...r.fails)
+      continue
+    }
+    result[i] = change
+  }
+  return result
+}
+
+const patch2 = <S extends Schema,T extends Out<S>>(cls:Class<S>, objectPrefix:string, objectPath:Path, object:Base, changes:InputJSON):Success<T>|Failures => {
+  const md = metadata<S,Class<S>>(cls)
+  return inScope(md, () => patchObject(md, cls, objectPrefix, objectPath, object, changes))
+}
+
+const patchObject = <S extends Schema,T extends Out<S>>(md:Metadata<S>, cls:Class<S>, objectPrefix:string, objectPath:Path, object:Base, changes:InputJSON):Success<T>|Failures => {
+  if (objectPrefix !== "") objectPrefix += "."
+  const result:InputJSON = {}
+  for (const k in md.fields) {
+    const value = (object as any)[k]
+    if (value !== undefined && !Object.prototype.hasOwnProperty.call(changes, k)) result[k] = copyOf(value)
+  }
+  const fails:Fail[] = []
+  const policy = call.unknown ?? md.unknown
+  const old = extras(object)
+  let kept = old === undefined ? undefined : { ...old }
+  for (const k of Object.keys(changes)) {
+    if (!scope.all && fails.length > 0) break
+    const prefix = objectPrefix + k
+    const path = [...objectPath, k]
+    let change = changes[k]
+    if (!isField(md, k)) {
+      if (policy === "reject") {
+        fails.push(new Fail(prefix, UNEXPECTED, "unexpected property", {}, path))
+      } else if (policy === "keep") {
+        kept ??= {}
+        if (change === null) delete kept[k]
+        else keep(kept, k, change)
+      }
+      continue
+    }
+    const current = (object as any)[k]
+    if (isPlain(change)) {
+      const count = fails.length
+      if (current instanceof Base) {
+        const r = patch2(current.constructor as never, prefix, path, current, change)
+        if (r.success) change = r.result
+        else fails.push(...r.fails)
+      } else if (Array.isArray(current)) {
+        change = patchArray(prefix, path, current, change, fails)
+      }
+      if (fails.length > count) continue
+    }
+    runField(md.fields[k as keyof S], (md.sample as any)[k], k, prefix, path, { [k]:change }, result, fails)
+  }
+  return construct(md, cls, objectPrefix, objectPath, result, kept, fails)
+}
+
+export const patch = <R extends Base,T extends object>(cls:new(fields:T)=>R, object:R, changes:InputJSON, options:RunOptions = {}):Success<R>|Failures => {
+  return within(cls, options, () => patch2(cls as never, "", [], object, changes))
+}
+
+export interface AsyncOptions extends RunOptions {
+  concurrency?:number
+  timeout?:number
+}
+
+interface Task {
+  prefix:string
+  path:Path
+  run():Promise<Fail|undefined>
+}
+
+const asyncTasks = (objectPrefix:string, objectPath:Path, object:Base, tasks:Task[]):void => {
+  const md = metadata(object.constructor as never)
+  for (const k in md.fields) {
+    const value = (object as any)[k]
+    if (value === undefined || value === null) continue
+    const prefix = objectPrefix + k
+    const path = [...objectPath, k]
+    const checker = md.fields[k]!.property.customAsync
+    if (checker) tasks.push({ prefix, path, run:() => checker(value) })
+    if (value instanceof Base) {
+      asyncTasks(prefix + ".", path, value, tasks)
+    } else if ((md.sample as any)[k] instanceof Dictionary) {
+      for (const [key, x] of entriesOf(value)) {
+        if (x instanceof Base) asyncTasks(prefix + "[" + JSON.stringify(key) + "].", [...path, key], x, tasks)
+      }
+    } else if (typeof(value) === "object" && Symbol.iterator in value) {
+      let i = 0
+      for (const x of value) {
+        if (x instanceof Base) asyncTasks(prefix + "[" + i + "].", [...path, i], x, tasks)
+        i++
+      }
+    }
+  }
+}
+
+const settle = async (task:Task, timeout:number|undefined):Promise<Fail|undefined> => {
+  let timer:ReturnType<typeof setTimeout>|undefined
+  let result:Fail|undefined
+  try {
+    const checks = [task.run()]
+    if (timeout !== undefined) {
+      checks.push(new Promise(resolve => {
+        timer = setTimeout(() => resolve(new Fail(task.prefix, TIMEOUT, `check timed out after ${timeout}ms`, { limit:timeout }, task.path)), timeout)
+      }))
+    }
+    const fail = await Promise.race(checks)
+    result = fail?.withPrefix(task.prefix, task.path)
+  } catch (e:any) {
+    result = new Fail(task.prefix, UNKNOWN, e instanceof Error ? e.message : "unknown error", {}, task.path)
+  }
+  clearTimeout(timer)
+  return result
+}
+
+const runTasks = async (tasks:Task[], options:AsyncOptions, all:boolean):Promise<Fail[]> => {
+  const results:(Fail|undefined)[] = []
+  let next = 0
+  let failed = false
+  const worker = async () => {
+    while (next < tasks.length && (all || !failed)) {
+      const i = next++
+      results[i] = await settle(tasks[i]!, options.timeout)
+      if (results[i]) failed = true
+    }
+  }
+  const workers = Math.min(Math.max(1, options.concurrency ?? tasks.length), tasks.length)
+  await Promise.all(Array.from({ length:workers }, worker))
+  return results.filter(x => x !== undefined) as Fail[]
+}
+
+export const runAsync = async <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON, options:AsyncOptions = {}):Promise<Success<R>|Failures> => {
+  const r = run(cls, json, options)
+  if (!r.success) return r
+  const tasks:Task[] = []
+  asyncTasks("", [], r.result, tasks)
+  const fails = await runTasks(tasks, options, within(cls, options, () => scope.all))
+  if (fails.length > 0) return within(cls, options, () => failure(fails))
+  return r
+}
+
+export const raiseAsync = async <R extends Base,T extends object>(cls:new(fields:T)=>R, json:InputJSON, options:AsyncOptions = {}):Promise<R> => {
+  const r = await runAsync(cls, json, options)
+  if (r.success) return r.result
+  throw new CheckError(r.fail, r.fails)
+}
+
+export const parseAsync = async <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string, options:AsyncOptions = {}):Promise<R> => {
+  return raiseAsync(cls, JSON.parse(json), options)
+}
+
+export const parseCollection = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string, sink:(element:R)=>void, options:RunOptions = {}):void => {
+  const a = JSON.parse(json)
+  if (!Array.isArray(a)) {
+    throw new TypeError("expected input array but got " + typeof(a))
+  }
+  for (const x of a) {
+    const r = run(cls, x, options)
+    if (r.success) sink(r.result)
+    else throw new CheckError(r.fail, r.fails)
+  }
+}
+
+export const parseArray = <R extends Base,T extends object>(cls:new(fields:T)=>R, json:string, options:RunOptions = {}) => {
+  const result:R[] = []
+  parseCollection(cls, json, x => { result.push(x) }, options)
+  return result
+}
+
+export type Chunks = AsyncIterable<string|Uint8Array> | ReadableStream<string|Uint8Array>
+
+async function* textOf(input:Chunks):AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  const decode = (chunk:string|Uint8Array) => {
+    return typeof(chunk) === "string" ? chunk : decoder.decode(chunk, { stream:true })
+  }
+  if ("getReader" in input) {
+    const reader = input.getReader()
+    try {
+      for (let r = await reader.read(); !r.done; r = await reader.read()) {
+        yield decode(r.value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  } else {
+    for await (const chunk of input) yield decode(chunk)
+  }
+  const rest = decoder.decode()
+  if (rest !== "") yield rest
+}
+
+const jsonTypeOf = (ch:string) => {
+  if (ch === "{" || ch === "n") return "object"
+  if (ch === "\"") return "string"
+  if (ch === "t" || ch === "f") return "boolean"
+  return "number"
+}
+
+async function* elementsOf(input:Chunks):AsyncGenerator<unknown> {
+  let started = false
+  let finished = false
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let pending = false
+  let element = ""
+  for await (const text of textOf(input)) {
+    const elements:string[] = []
+    let start = 0
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i]!
+      if (inString) {
+        if (escaped) escaped = false
+        else if (ch === "\\") escaped = true
+        else if (ch === "\"") inString = false
+        continue
+      }
+      if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r") continue
+      if (!started) {
+        if (ch !== "[") throw new TypeError("expected input array but got " + jsonTypeOf(ch))
+        started = true
+        start = i + 1
+      } else if (finished) {
+        throw new SyntaxError("unexpected data after end of input array")
+      } else if (ch === "\"") {
+        inString = true
+      } else if (ch === "{" || ch === "[") {
+        depth++
+      } else if (depth > 0 && (ch === "}" || ch === "]")) {
+        depth--
+      } else if (depth === 0 && (ch === "," || ch === "]")) {
+        element += text.slice(start, i)
+        start = i + 1
+        if (element.trim() !== "") elements.push(element)
+        else if (ch === "," || pending) throw new SyntaxError("missing array element")
+        element = ""
+        pending = ch === ","
+        finished = ch === "]"
+      }
+    }
+    if (started && !finished) element += text.slice(start)
+    for (const x of elements) yield JSON.parse(x)
+  }
+  if (!finished) throw new SyntaxError("unexpected end of input array")
+}
+
+export async function* streamCollection<R extends Base,T extends object>(cls:new(fields:T)=>R, input:Chunks, options:RunOptions = {}):AsyncGenerator<R> {
+  let i = 0
+  for await (const x of elementsOf(input)) {
+    const r = within(cls, options, () => run2(cls as never, "[" + i + "]", [i], x as InputJSON))
+    if (!r.success) throw new CheckError(r.fail, r.fails)
+    yield r.result as R
+    i++
+  }
+}
+
+export const parseCollectionStream = async <R extends Base,T extends object>(cls:new(fields:T)=>R, input:Chunks, sink:(element:R)=>void, options:RunOptions = {}):Promise<void> => {
+  for await (const x of streamCollection(cls, input, options)) sink(x)
+}
+
+async function* linesOf(input:string|Chunks):AsyncGenerator<string> {
+  if (typeof(input) === "string") {
+    for (const line of input.split("\n")) yield line
+    return
+  }
+  let rest = ""
+  for await (const text of textOf(input)) {
+    const lines = (rest + text).split("\n")
+    rest = lines.pop()!
+    for (const line of lines) yield line
+  }
+  yield rest
+}
+
+const onLine = (n:number, fail:Fail):Fail => {
+  return fail.withPrefix(fail.prefix === "" ? "line " + n : "line " + n + ": " + fail.prefix, ["line " + n, ...fail.path])
+}
+
+const runLine = <R extends Base,T extends object>(cls:new(fields:T)=>R, n:number, line:string, options:RunOptions):Success<R>|Failures => {
+  let json:InputJSON
+  try {
+    json = JSON.parse(line)
+  } catch (e:any) {
+    return failure([new Fail("line " + n, SYNTAX, e.message)])
+  }
+  const r = run(cls, json, options)
+  if (r.success) return r
+  return within(cls, options, () => failure(r.fails.map(x => onLine(n, x))))
+}
+
+export const parseLines = async <R extends Base,T extends object>(cls:new(fields:T)=>R, input:string|Chunks, sink:(element:R)=>void, options:RunOptions = {}):Promise<void> => {
+  let n = 0
+  for await (const line of linesOf(input)) {
+    n++
+    if (line.trim() === "") continue
+    const r = runLine(cls, n, line, options)
+    if (r.success) {
+      sink(r.result)
+      continue
+    }
+    within(cls, options, () => {
+      if (!scope.skip) throw new CheckError(r.fail, r.fails)
+      warn(`skipping ${r.fail.prefix} - ${r.fail.message}`)
+    })
+  }
+}
+
+const encodeDefault = (value:unknown):unknown => {
+  if (typeof(value) === "bigint") return value.toString()
+  return value
+}
+
+const encode = (type:Type<any>, sample:unknown, value:unknown):unknown => {
+  return type.encode ? type.encode(sample, value) : encodeDefault(value)
+}
+
+const encodeObject = <S extends Schema>(cls:Class<S>, object:Base):InputJSON => {
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  const result:InputJSON = {}
+  for (const k in md.fields) {
+    const value = (object as any)[k]
+    if (value === undefined || value === null) continue
+    result[k] = encode(md.fields[k].type, sample[k], value)
+  }
+  return { ...result, ...extras(object) }
+}
+
+export type ChangeKind = "added" | "removed" | "changed"
+
+export class Change {
+  readonly path:Path
+
+  constructor(
+    readonly prefix:string,
+    readonly kind:ChangeKind,
+    readonly from?:unknown,
+    readonly to?:unknown,
+    readonly member = false,
+    path?:Path
+  ) {
+    this.path = path ?? (prefix === "" ? [] : [prefix])
+  }
+}
+
+export type DiffOf = (prefix:string, sample:unknown, a:unknown, b:unknown, path:Path)=>Change[]
+
+const diffOf:DiffOf = (prefix, sample, a, b, path) => {
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  const missingA = a === undefined || a === null
+  const missingB = b === undefined || b === null
+  if (missingA && missingB) return []
+  if (missingA) return [new Change(prefix, "added", undefined, encode(type, sample, b), false, path)]
+  if (missingB) return [new Change(prefix, "removed", encode(type, sample, a), undefined, false, path)]
+  if (type.diff) return type.diff(prefix, sample, a, b, diffOf, path)
+  if (equalsOf(sample, a, b)) return []
+  return [new Change(prefix, "changed", encode(type, sample, a), encode(type, sample, b), false, path)]
+}
+
+const diffObject = <S extends Schema>(cls:Class<S>, objectPrefix:string, objectPath:Path, a:Base, b:Base, diffOf:DiffOf):Change[] => {
+  if (objectPrefix !== "") objectPrefix += "."
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  const changes:Change[] = []
+  for (const k in md.fields) {
+    changes.push(...diffOf(objectPrefix + k, sample[k], (a as any)[k], (b as any)[k], [...objectPath, k]))
+  }
+  return changes
+}
+
+const diffElements = (prefix:string, path:Path, sampleAt:(i:number)=>unknown, a:unknown[], b:unknown[], diffOf:DiffOf):Change[] => {
+  const changes:Change[] = []
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    changes.push(...diffOf(prefix + "[" + i + "]", sampleAt(i), a[i], b[i], [...path, i]))
+  }
+  return changes
+}
+
+const diffMembers = (prefix:string, path:Path, sample:unknown, a:Iterable<unknown>, b:Iterable<unknown>):Change[] => {
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  const as = [...a]
+  const bs = [...b]
+  return [
+    ...unmatched(sample, as, bs, equalsOf).map(x => new Change(prefix, "removed", encode(type, sample, x), undefined, true, path)),
+    ...unmatched(sample, bs, as, equalsOf).map(x => new Change(prefix, "added", undefined, encode(type, sample, x), true, path)),
+  ]
+}
+
+export const diff = <R extends Base,T extends object>(cls:new(fields:T)=>R, a:R, b:R):Change[] => {
+  return within(cls, {}, () => diffObject(cls as never, "", [], a, b, diffOf))
+}
+
+export const applyDiff = <R extends Base,T extends object>(cls:new(fields:T)=>R, object:R, changes:Change[], options:RunOptions = {}):Success<R>|Failures => {
+  const json = within(cls, options, () => encodeObject(cls as never, object))
+  const fails:Fail[] = []
+  for (const change of changes) {
+    const path = [...change.path]
+    const last = path.pop()!
+    let parent:any = json
+    for (const key of path) parent = parent?.[key]
+    if (typeof(parent) !== "object" || parent === null || (change.member && !Array.isArray(parent[last]))) {
+      fails.push(new Fail(change.prefix, UNEXPECTED, "nothing to change at " + change.prefix))
+      continue
+    }
+    if (change.member) {
+      const members:unknown[] = parent[last]
+      const key = JSON.stringify(change.from)
+      const i = members.findIndex(x => JSON.stringify(x) === key)
+      if (change.kind === "added") members.push(change.to)
+      else if (i >= 0) members.splice(i, 1)
+    } else if (change.kind !== "removed") {
+      parent[last] = change.to
+    } else if (Array.isArray(parent)) {
+      parent.length = Math.min(parent.length, last as number)
+    } else {
+      delete parent[last]
+    }
+  }
+  if (fails.length > 0) return within(cls, options, () => failure(fails))
+  return run(cls, json, options)
+}
+
+export type EqualsOf = (sample:unknown, a:unknown, b:unknown)=>boolean
+export type HashOf = (sample:unknown, value:unknown)=>number
+
+const hashString = (s:string):number => {
+  let h = 2166136261
+  for (let i = 0; i < s.length; i++) {
+    h = Math.imul(h ^ s.charCodeAt(i), 16777619)
+  }
+  return h >>> 0
+}
+
+const combineHashes = (hashes:number[]):number => {
+  return hashes.reduce((h, x) => Math.imul(h ^ x, 16777619) >>> 0, 2166136261)
+}
+
+const sumHashes = (hashes:number[]):number => {
+  return hashes.reduce((h, x) => (h + x) >>> 0, 0)
+}
+
+const equalsOf:EqualsOf = (sample, a, b) => {
+  const missingA = a === undefined || a === null
+  const missingB = b === undefined || b === null
+  if (missingA || missingB) return missingA === missingB
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  if (type.equals) return type.equals(sample, a, b, equalsOf)
+  return JSON.stringify(encode(type, sample, a)) === JSON.stringify(encode(type, sample, b))
+}
+
+const hashOf:HashOf = (sample, value) => {
+  if (value === undefined || value === null) return 0
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  if (type.hash) return type.hash(sample, value, hashOf)
+  if (type.equals) return 0
+  return hashString(JSON.stringify(encode(type, sample, value)))
+}
+
+const sameObject = <S extends Schema>(cls:Class<S>, a:Base, b:Base, equalsOf:EqualsOf):boolean => {
+  if (a.constructor !== b.constructor) return false
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  for (const k in md.fields) {
+    if (!equalsOf(sample[k], (a as any)[k], (b as any)[k])) return false
+  }
+  return true
+}
+
+const hashObject = <S extends Schema>(cls:Class<S>, value:Base, hashOf:HashOf):number => {
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  const hashes:number[] = []
+  for (const k in md.fields) hashes.push(hashOf(sample[k], (value as any)[k]))
+  return combineHashes(hashes)
+}
+
+const unmatched = (sample:unknown, a:unknown[], b:unknown[], equalsOf:EqualsOf):unknown[] => {
+  const buckets = new Map<number,unknown[]>()
+  for (const x of b) {
+    const h = hashOf(sample, x)
+    buckets.set(h, [...buckets.get(h) ?? [], x])
+  }
+  return a.filter(x => {
+    const bucket = buckets.get(hashOf(sample, x)) ?? []
+    const i = bucket.findIndex(y => equalsOf(sample, x, y))
+    if (i >= 0) bucket.splice(i, 1)
+    return i < 0
+  })
+}
+
+const sameMembers = (sample:unknown, a:Iterable<unknown>, b:Iterable<unknown>, equalsOf:EqualsOf):boolean => {
+  const as = [...a]
+  const bs = [...b]
+  return as.length === bs.length && unmatched(sample, as, bs, equalsOf).length === 0
+}
+
+export const equals = <R extends Base,T extends object>(cls:new(fields:T)=>R, a:R, b:R):boolean => {
+  return within(cls, {}, () => sameObject(cls as never, a, b, equalsOf))
+}
+
+export const hash = <R extends Base,T extends object>(cls:new(fields:T)=>R, value:R):number => {
+  return within(cls, {}, () => hashObject(cls as never, value, hashOf))
+}
+
+export const stringify = <R extends Base,T extends object>(cls:new(fields:T)=>R, object:R):string => {
+  return within(cls, {}, () => JSON.stringify(encodeObject(cls as never, object)))
+}
+
+export const stringifyArray = <R extends Base,T extends object>(cls:new(fields:T)=>R, objects:Iterable<R>):string => {
+  return within(cls, {}, () => JSON.stringify(Array.from(objects, x => encodeObject(cls as never, x))))
+}
+
+const recheck = <S extends Schema>(cls:Class<S>, object:Base):Fail[] => {
+  const md = metadata<S,Class<S>>(cls)
+  const fails:Fail[] = []
+  for (const k in md.fields) {
+    const field = md.fields[k]
+    const value = (object as any)[k]
+    if (value === undefined || value === null) {
+      if (field.property.required !== false) fails.push(new Fail(k, REQ, "missing required property"))
+      continue
+    }
+    fails.push(...field.check(value).map(x => x.withPrefix(k, [k])))
+  }
+  if (fails.length > 0) return fails
+  return objectChecks(md, "", [], object as never)
+}
+
+export const stringifyLines = <R extends Base,T extends object>(cls:new(fields:T)=>R, objects:Iterable<R>):string => within(cls, {}, () => {
+  let result = ""
+  let n = 0
+  for (const x of objects) {
+    n++
+    const fails = recheck(cls as never, x)
+    if (fails.length > 0) {
+      const r = failure(fails.map(x => onLine(n, x)))
+      throw new CheckError(r.fail, r.fails)
+    }
+    result += JSON.stringify(encodeObject(cls as never, x)) + "\n"
+  }
+  return result
+})
+
+interface Defs {
+  root:Function
+  names:Map<Function,string>
+  defs:Record<string,JsonSchema>
+}
+
+const schemaOf = (defs:Defs, sample:unknown):JsonSchema => {
+  if (sample instanceof Base) {
+    const cls = sample.constructor
+    if (cls === defs.root) return { $ref:"#" }
+    let name = defs.names.get(cls)
+    if (name === undefined) {
+      const base = cls.name
+      name = base
+      for (let i = 2; name in defs.defs; i++) name = base + i
+      defs.names.set(cls, name)
+      defs.defs[name] = {}
+      defs.defs[name] = objectSchema(defs, cls as never)
+    }
+    return { $ref:"#/$defs/" + name }
+  }
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  const schemaOfProperty = (x:unknown, p?:Property<any>) => p ? propertySchema(defs, p, x) : schemaOf(defs, x)
+  return type.jsonSchema ? type.jsonSchema(sample, schemaOfProperty) : {}
+}
+
+const propertySchema = <T>(defs:Defs, p:Property<T>, sample:T):JsonSchema => {
+  const type = scope.types.find(x => x.appliesTo(sample))!
+  const result = { ...schemaOf(defs, sample) }
+  const isString = typeof(sample) === "string"
+  const isItems = !isString && (hasProp(sample, "length") || hasProp(sample, "size"))
+  const isNumber = typeof(sample) === "number"
+  const isEntries = sample instanceof Dictionary
+  if (p.min !== undefined) {
+    if (isString) result.minLength = p.min
+    else if (isItems) result.minItems = p.min
+    else if (isNumber) result.minimum = p.min
+    else if (isEntries) result.minProperties = p.min
+  }
+  if (p.max !== undefined) {
+    if (isString) result.maxLength = p.max
+    else if (isItems) result.maxItems = p.max
+    else if (isNumber) result.maximum = p.max
+    else if (isEntries) result.maxProperties = p.max
+  }
+  if (isNumber && p.integer !== false) result.type = "integer"
+  if (p.allowed !== undefined) result.enum = p.allowed.map(x => encode(type, sample, x))
+  if (p.regex !== undefined) result.pattern = p.regex.source
+  if (p.readonly) result.readOnly = true
+  if (p.required === "default") {
+    result.default = encode(type, sample, type.defaultTo(sample))
+  }
+  return result
+}
+
+const objectSchema = <S extends Schema>(defs:Defs, cls:Class<S>):JsonSchema => {
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  const properties:Record<string,JsonSchema> = {}
+  const required:string[] = []
+  for (const k in md.fields) {
+    const field = md.fields[k]
+    properties[k] = propertySchema(defs, field.property, sample[k])
+    if ((field.property.required ?? true) === true) required.push(k)
+  }
+  return { type:"object", properties, required }
+}
+
+export const toJsonSchema = <R extends Base,T extends object>(cls:new(fields:T)=>R):JsonSchema => {
+  const defs:Defs = { root:cls, names:new Map(), defs:{} }
+  const result:JsonSchema = {
+    $schema:"https://json-schema.org/draft/2020-12/schema",
+    ...within(cls, {}, () => objectSchema(defs, cls as never)),
+  }
+  if (defs.names.size > 0) result.$defs = defs.defs
+  return result
+}
+
+const annotationKeywords = ["$schema", "$id", "$comment", "title", "description", "examples", "format", "deprecated", "writeOnly"]
+const objectKeywords = ["type", "properties", "required", "$defs"]
+const sampleKeywords = ["type", "$ref", "items", "properties", "required", "$defs"]
+const constraintKeywords = ["minimum", "maximum", "minLength", "maxLength", "minItems", "maxItems", "enum", "pattern", "default", "readOnly"]
+
+interface Importer {
+  doc:JsonSchema
+  classes:Map<string,Base&Class<Schema>>
+  building:Set<string>
+  pending:{ cls:Base&Class<Schema>, key:string, pointer:string, array:boolean }[]
+  fails:Fail[]
+}
+
+interface Imported {
+  property:Property<any>
+  recurse?:{ pointer:string, array:boolean }
+}
+
+const checkKeywords = (im:Importer, pointer:string, node:JsonSchema, ...allowed:string[][]) => {
+  for (const k in node) {
+    if (!allowed.some(x => x.includes(k))) {
+      im.fails.push(new Fail(pointer + "/" + k, SCHEMA, `unsupported keyword ${k}`))
+    }
+  }
+}
+
+const decodePointer = (part:string):string => {
+  return decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~")
+}
+
+const resolve = (doc:JsonSchema, ref:string):JsonSchema|undefined => {
+  if (!ref.startsWith("#")) return undefined
+  let node:unknown = doc
+  for (const part of ref.slice(1).split("/").slice(1)) {
+    const key = decodePointer(part)
+    if (typeof(node) !== "object" || node === null || !(key in node)) return undefined
+    node = (node as JsonSchema)[key]
+  }
+  return node as JsonSchema
+}
+
+const importSample = (im:Importer, pointer:string, node:JsonSchema, constraints:boolean):Imported => {
+  checkKeywords(im, pointer, node, annotationKeywords, sampleKeywords, constraints ? constraintKeywords : [])
+  const ref = node.$ref
+  if (typeof(ref) === "string") {
+    const target = resolve(im.doc, ref)
+    if (target === undefined) {
+      im.fails.push(new Fail(pointer + "/$ref", SCHEMA, `unresolved reference ${ref}`))
+      return { property:{ v:undefined }}
+    }
+    if (im.building.has(ref)) {
+      if (target.type === "object") return { property:{ v:null }, recurse:{ pointer:ref, array:false }}
+      im.fails.push(new Fail(pointer + "/$ref", SCHEMA, `unsupported recursive reference ${ref}`))
+      return { property:{ v:undefined }}
+    }
+    if (target.type === "object") {
+      if (!im.classes.has(ref)) checkKeywords(im, ref, target, annotationKeywords, objectKeywords)
+      return { property:{ v:sample(importClass(im, ref, target)) }}
+    }
+    im.building.add(ref)
+    const r = constraints ? importProperty(im, ref, target) : importSample(im, ref, target, false)
+    im.building.delete(ref)
+    return r
+  }
+  switch (node.type) {
+    case "string": return { property:{ v:"" }}
+    case "integer": return { property:{ v:0 }}
+    case "number": return { property:{ v:0, integer:false }}
+    case "boolean": return { property:{ v:false }}
+    case "object": return { property:{ v:sample(importClass(im, pointer, node)) }}
+    case "array": {
+      const items = node.items
+      if (typeof(items) !== "object" || items === null) {
+        im.fails.push(new Fail(pointer, SCHEMA, "array without items"))
+        return { property:{ v:[] }}
+      }
+      const r = importSample(im, pointer + "/items", items as JsonSchema, false)
+      const recurse = r.recurse && { pointer:r.recurse.pointer, array:true }
+      return { property:{ v:[r.property.v] }, recurse }
+    }
+  }
+  im.fails.push(new Fail(pointer + "/type", SCHEMA, `unsupported type ${JSON.stringify(node.type)}`))
+  return { property:{ v:undefined }}
+}
+
+const keywordTypes:Record<string,string> = {
+  minimum:"number", maximum:"number", minLength:"string", maxLength:"string", pattern:"string", minItems:"array", maxItems:"array",
+}
+
+const importProperty = (im:Importer, pointer:string, node:JsonSchema):Imported => {
+  const r = importSample(im, pointer, node, true)
+  const p = r.property
+  const v = p.v
+  const t = typeOf(v)
+  if (v !== undefined) {
+    for (const k in keywordTypes) {
+      if (node[k] !== undefined && keywordTypes[k] !== t) {
+        im.fails.push(new Fail(pointer + "/" + k, SCHEMA, `unsupported keyword ${k} for ${t}`))
+      }
+    }
+  }
+  if (typeof(v) === "number") {
+    if (typeof(node.minimum) === "number") p.min = node.minimum
+    if (typeof(node.maximum) === "number") p.max = node.maximum
+  }
+  if (typeof(v) === "string") {
+    if (typeof(node.minLength) === "number") p.min = node.minLength
+    if (typeof(node.maxLength) === "number") p.max = node.maxLength
+  }
+  if (Array.isArray(v)) {
+    if (typeof(node.minItems) === "number") p.min = node.minItems
+    if (typeof(node.maxItems) === "number") p.max = node.maxItems
+  }
+  if (Array.isArray(node.enum)) {
+    const wrong = node.enum.find(x => typeOf(x) !== t)
+    if (v !== undefined && wrong !== undefined) {
+      im.fails.push(new Fail(pointer + "/enum", SCHEMA, `enum value ${JSON.stringify(wrong)} is not a ${t}`))
+    }
+    p.allowed = node.enum
+    p.v = node.enum[0]
+  }
+  if (typeof(v) === "string" && typeof(node.pattern) === "string") {
+    try {
+      p.regex = new RegExp(node.pattern)
+    } catch (e:any) {
+      im.fails.push(new Fail(pointer + "/pattern", SCHEMA, e.message))
+    }
+  }
+  if (node.readOnly === true) p.readonly = true
+  if (node.default !== undefined) {
+    const empty = Array.isArray(node.default) && node.default.length === 0
+    if (typeof(node.default) === "object" && node.default !== null && !empty) {
+      im.fails.push(new Fail(pointer + "/default", SCHEMA, "unsupported non-empty default for " + typeOf(node.default)))
+    } else if (!empty) {
+      p.v = node.default
+    }
+    p.required = "default"
+  }
+  return r
+}
+
+const importClass = (im:Importer, pointer:string, node:JsonSchema):Base&Class<Schema> => {
+  const existing = im.classes.get(pointer)
+  if (existing) return existing
+  im.building.add(pointer)
+  const properties = (node.properties ?? {}) as Record<string,JsonSchema>
+  const required = new Set(Array.isArray(node.required) ? node.required : [])
+  const schema:Schema = {}
+  const recursive:Record<string,{ pointer:string, array:boolean }> = {}
+  for (const k in properties) {
+    const r = importProperty(im, pointer + "/properties/" + k, properties[k]!)
+    r.property.required = r.property.required ?? required.has(k)
+    schema[k] = r.property
+    if (r.recurse) recursive[k] = r.recurse
+  }
+  const def = /^#\/\$defs\/([^/]+)$/.exec(pointer)
+  const cls = define(schema, def === null ? {} : { name:decodePointer(def[1]!) })
+  im.classes.set(pointer, cls)
+  im.building.delete(pointer)
+  for (const key in recursive) im.pending.push({ cls, key, ...recursive[key]! })
+  return cls
+}
+
+export const fromJsonSchema = (doc:JsonSchema):Base&Class<Schema> => {
+  const im:Importer = { doc, classes:new Map(), building:new Set(), pending:[], fails:[] }
+  checkKeywords(im, "#", doc, annotationKeywords, objectKeywords)
+  if (doc.type !== "object") {
+    im.fails.push(new Fail("#/type", SCHEMA, `expected object type but got ${JSON.stringify(doc.type)}`))
+  }
+  const cls = importClass(im, "#", doc)
+  for (const p of im.pending) {
+    const value = sample(im.classes.get(p.pointer)!)
+    recurse(p.cls, p.key as never, (p.array ? [value] : value) as never)
+  }
+  if (im.fails.length > 0) throw new CheckError(im.fails[0]!, im.fails)
+  return cls
+}
+
+const schemaOfClass = <S extends Schema>(cls:Defined<S>):S => {
+  const md = metadata<S,Class<S>>(cls as never)
+  const result:Schema = {}
+  for (const k in md.fields) result[k] = { ...md.fields[k].property }
+  return result as S
+}
+
+const using = <T>(settings:Settings, f:()=>T):T => {
+  const saved = context
+  context = settings
+  try {
+    return f()
+  } finally {
+    context = saved
+  }
+}
+
+const redefine = <S extends Schema>(md:Metadata<any>, schema:S, options:ClassOptions<S>) => {
+  return using(md.context, () => define(schema, { ...md.options, unknown:md.unknown, freeze:md.freeze, setters:md.setters, ...options }))
+}
+
+export const extend = <S extends Schema,M extends Schema>(cls:Defined<S>, more:M, options:ClassOptions<Omit<S,keyof M>&M> = {}) => {
+  const md = metadata<S,Class<S>>(cls as never)
+  const schema = { ...schemaOfClass(cls), ...more } as Omit<S,keyof M>&M
+  return redefine(md, schema, { checks:md.checks as never, ...options })
+}
+
+export const pick = <S extends Schema,K extends keyof S>(cls:Defined<S>, keys:K[], options:ClassOptions<Pick<S,K>> = {}) => {
+  const md = metadata<S,Class<S>>(cls as never)
+  const all = schemaOfClass(cls)
+  const schema = {} as Pick<S,K>
+  for (const k of keys) schema[k] = all[k]
+  return redefine(md, schema, options)
+}
+
+export const omit = <S extends Schema,K extends keyof S>(cls:Defined<S>, keys:K[], options:ClassOptions<Omit<S,K>> = {}) => {
+  const md = metadata<S,Class<S>>(cls as never)
+  const schema = schemaOfClass(cls)
+  for (const k of keys) delete schema[k]
+  return redefine(md, schema as Omit<S,K>, options)
+}
+
+export type PartialSchema<S extends Schema> = { [K in keyof S]: Omit<S[K],"required"> & { required:false } }
+
+export const partial = <S extends Schema>(cls:Defined<S>, options:ClassOptions<PartialSchema<S>> = {}) => {
+  const md = metadata<S,Class<S>>(cls as never)
+  const schema:Schema = schemaOfClass(cls)
+  for (const k in schema) schema[k]!.required = false
+  return redefine(md, schema as PartialSchema<S>, options)
+}
+
+export const extras = (object:Base):InputJSON|undefined => {
+  return (object as any)[extrasSymbol]
+}
+
+const bail = Symbol("bail")
+const absent = Symbol("absent")
+
+type Fast = (json:unknown)=>unknown
+
+interface Compiled {
+  fast:Fast
+  run(json:InputJSON):Success<unknown>|Failures|typeof bail
+}
+
+const compiledClasses = new WeakMap<Class<any>,Compiled>()
+
+const compiled = <S extends Schema>(cls:Class<S>):Compiled => {
+  let c = compiledClasses.get(cls)
+  if (c === undefined) {
+    c = compileClass(cls)
+    compiledClasses.set(cls, c)
+  }
+  return c
+}
+
+const compileParse = (type:Type<any>, sample:unknown):Fast => {
+  if (sample instanceof Base && type.name === "checked object") {
+    const cls = sample.constructor as Class<any>
+    let fast:Fast|undefined
+    return json => (fast ??= compiled(cls).fast)(json)
+  }
+  const c = collections.get(type)
+  if (c !== undefined) {
+    const sampleElement = c.sampleElement(sample)
+    const elementType = scope.types.find(x => x.appliesTo(sampleElement))!
+    const element = sampleElement instanceof Base ? compileParse(elementType, sampleElement) : (json:unknown) => {
+      const r = elementType.parse("", sampleElement, json, [])
+      return r.success ? r.result : bail
+    }
+    return json => {
+      const a = json as unknown[]
+      const result = c.make()
+      for (let i = 0; i < a.length; i++) {
+        if (isMismatch(elementType.mismatch(a[i], sampleElement))) return bail
+        const value = element(a[i])
+        if (value === bail) return bail
+        c.add(result, value)
+      }
+      return result
+    }
+  }
+  return json => {
+    const r = type.parse("", sample, json, [])
+    return r.success ? r.result : bail
+  }
+}
+
+const compileField = (field:Field<any>, sample:unknown):Fast => {
+  const prop = field.property
+  const type = field.type
+  const passes = optimize("", sample, prop).passes
+  const parse = compileParse(type, sample)
+  const before = prop.transform?.before
+  const after = prop.transform?.after
+  const fallback = prop.allowed !== undefined && prop.fallback !== undefined
+  return value => {
+    if (value === undefined || value === null) {
+      if (prop.required === false) return absent
+      if (prop.required !== "default") return bail
+      value = type.defaultTo(sample)
+    }
+    const mm = type.mismatch(value, sample)
+    if (isMismatch(mm)) {
+      if (!fallback) return bail
+      value = prop.fallback
+    } else if (!mm) {
+      value = parse(value)
+      if (value === bail) return bail
+    }
+    if (before) value = before(value)
+    if (fallback && prop.allowed!.indexOf(value) < 0) value = prop.fallback
+    for (const pass of passes) {
+      if (pass(value) !== undefined) return bail
+    }
+    return after ? after(value) : value
+  }
+}
+
+const compileClass = <S extends Schema>(cls:Class<S>):Compiled => {
+  const md = metadata<S,Class<S>>(cls)
+  const sample = md.sample as any
+  const keys = Object.keys(md.fields)
+  const fields = inScope(md, () => keys.map(k => compileField(md.fields[k]!, sample[k])))
+  // with resume, a failing field and the ones after it are rerun on the slow path
+  const fastObject = (object:InputJSON, resume:boolean):Success<unknown>|Failures|typeof bail => {
+    if (md.migrator !== undefined) {
+      const m = migrate(md.migrator, "", [], object)
+      if (!m.success) return resume ? m : bail
+      object = m.result
+    }
+    const result:InputJSON = {}
+    for (let i = 0; i < keys.length; i++) {
+      const k = keys[i]!
+      const value = fields[i]!(object[k])
+      if (value === bail) return resume && !warned ? runFields(md, cls, "", [], object, result, i) : bail
+      if (value !== absent) result[k] = value
+    }
+    const policy = call.unknown ?? md.unknown
+    let kept:InputJSON|undefined
+    if (policy !== "strip") {
+      kept = {}
+      for (const k of Object.keys(object)) {
+        if (isField(md, k)) continue
+        if (policy === "reject") return resume && !warned ? runFields(md, cls, "", [], object, result, keys.length) : bail
+        keep(kept, k, object[k])
+      }
+    }
+    const r = construct(md, cls, "", [], result, policy === "keep" ? kept : undefined, [])
+    return r.success || resume ? r : bail
+  }
+  const fast = (json:unknown):unknown => {
+    if (json instanceof Base) return json
+    const r = inScope(md, () => fastObject(json as InputJSON, false))
+    return r === bail ? bail : (r as Success<unknown>).result
+  }
+  const run = (json:InputJSON) => {
+    if (json instanceof Base) return { success:true, result:json } as const
+    return inScope(md, () => fastObject(json, true))
+  }
+  return { fast, run }
+}
+
+export type Validator<R> = (json:InputJSON, options?:RunOptions)=>Success<R>|Failures
+
+export const compile = <R extends Base,T extends object>(cls:new(fields:T)=>R):Validator<R> => {
+  const c = compiled(cls as never)
+  return (json:InputJSON, options:RunOptions = {}) => within(cls, options, () => {
+    const saved = warned
+    warned = false
+    let r:Success<unknown>|Failures|typeof bail
+    try {
+      r = c.run(json)
+      if (warned) r = bail
+    } catch (e) {
+      r = bail
+    } finally {
+      warned = saved
+    }
+    if (r !== bail) return r as Success<R>|Failures
+    return run2(cls as never, "", [], json)
+  })
+}
+
+export interface Arbitrary {
+  readonly depth:number
+  random():number
+  int(lo:number, hi:number):number
+  of(sample:unknown, property?:Property<any>):unknown
+}
+
+export interface ArbitraryOptions {
+  seed?:number
+}
+
+export interface Invalid {
+  json:InputJSON
+  fail:Fail
+}
+
+const seeded = (seed:number):()=>number => {
+  let s = seed >>> 0
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = Math.imul(s ^ (s >>> 15), s | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const maxDepth = 4
+
+const arbitraryContext = (random:()=>number, depth:number):Arbitrary => ({
+  depth,
+  random,
+  int:(lo:number, hi:number) => lo + Math.floor(random() * (hi - lo + 1)),
+  of:(sample:unknown, property:Property<any> = { v:sample }) => {
+    const field = { property, type:scope.types.find(x => x.appliesTo(sample))!, check:toFunction("", property) }
+    return arbitraryField(field, arbitraryContext(random, depth + 1))
+  },
+})
+
+const arbitraryCount = (property:Property<any>, a:Arbitrary):number => {
+  const lo = (property.min as number|undefined) ?? 0
+  const hi = (property.max as number|undefined) ?? lo + (a.depth < maxDepth ? 4 : 0)
+  return a.int(lo, hi)
+}
+
+const arbitraryNumber = (property:Property<number>, a:Arbitrary):number => {
+  const lo = property.min ?? (property.max ?? 0) - 100
+  const hi = property.max ?? lo + 200
+  if (property.integer === false) return lo + a.random() * (hi - lo)
+  return a.int(Math.ceil(lo), Math.floor(hi))
+}
+
+const letters = "abcdefghijklmnopqrstuvwxyz"
+
+const digits = "0123456789"
+const printable = Array.from({ length:95 }, (_, i) => String.fromCharCode(32 + i)).join("")
+const classEscapes:Record<string,string> = { d:digits, w:letters + letters.toUpperCase() + digits + "_", s:" " }
+
+interface Atom {
+  chars?:string
+  alternatives?:Atom[][]
+  min:number
+  max:number
+}
+
+const parsePattern = (source:string):Atom[][]|undefined => {
+  let i = 0
+  const except = (chars:string) => [...printable].filter(x => !chars.includes(x)).join("")
+  const escape = ():string|undefined => {
+    const c = source[i++]
+    if (c === undefined || /[0-9bBpPkc]/.test(c)) return undefined
+    if (c in classEscapes) return classEscapes[c]
+    if (c === "D" || c === "W" || c === "S") return except(classEscapes[c.toLowerCase()]!)
+    if (c === "n") return "\n"
+    if (c === "t") return "\t"
+    if (c === "x" || c === "u") {
+      const hex = source.slice(i, i + (c === "x" ? 2 : 4))
+      i += hex.length
+      return /^([0-9a-fA-F]{2}){1,2}$/.test(hex) ? String.fromCharCode(parseInt(hex, 16)) : undefined
+    }
+    return c
+  }
+  const charClass = ():string|undefined => {
+    const negated = source[i] === "^"
+    if (negated) i++
+    let chars = ""
+    while (source[i] !== "]") {
+      let c = source[i++]
+      if (c === "\\") c = escape()
+      if (c === undefined) return undefined
+      if (c.length === 1 && source[i] === "-" && source[i + 1] !== "]") {
+        i++
+        let end = source[i++]
+        if (end === "\\") end = escape()
+        if (end === undefined || end.length !== 1) return undefined
+        for (let x = c.charCodeAt(0); x <= end.charCodeAt(0); x++) chars += String.fromCharCode(x)
+      } else {
+        chars += c
+      }
+    }
+    i++
+    if (negated) chars = except(chars)
+    return chars.length > 0 ? chars : undefined
+  }
+  const alternatives = ():Atom[][]|undefined => {
+    const result:Atom[][] = [[]]
+    while (i < source.length && source[i] !== ")") {
+      const c = source[i++]!
+      if (c === "|") {
+        result.push([])
+        continue
+      }
+      if (c === "^" || c === "$") continue
+      let atom:Atom
+      if (c === "(") {
+        if (source.startsWith("?:", i)) i += 2
+        else if (/^\?<[a-zA-Z]/.test(source.slice(i))) i = source.indexOf(">", i) + 1
+        else if (source[i] === "?") return undefined
+        const inner = alternatives()
+        if (inner === undefined) return undefined
+        i++
+        atom = { alternatives:inner, min:1, max:1 }
+      } else {
+        const chars = c === "[" ? charClass() : c === "\\" ? escape() : c === "." ? classEscapes.w : "*+?{".includes(c) ? undefined : c
+        if (chars === undefined) return undefined
+        atom = { chars, min:1, max:1 }
+      }
+      const q = /^(?:([*+?])|\{(\d+)(,(\d*))?\})\??/.exec(source.slice(i))
+      if (q !== null) {
+        i += q[0].length
+        atom.min = q[1] === undefined ? Number(q[2]) : q[1] === "+" ? 1 : 0
+        atom.max = q[1] === "?" ? 1 : q[1] !== undefined ? atom.min + 4 : q[3] === undefined ? atom.min : q[4] === "" ? atom.min + 4 : Number(q[4])
+      }
+      result[result.length - 1]!.push(atom)
+    }
+    return result
+  }
+  const result = alternatives()
+  return i === source.length ? result : undefined
+}
+
+const patterns = new WeakMap<RegExp,Atom[][]|undefined>()
+
+const arbitraryMatch = (alternatives:Atom[][], a:Arbitrary):string => {
+  const sequence = alternatives[a.int(0, alternatives.length - 1)]!
+  let result = ""
+  for (const atom of sequence) {
+    const count = a.int(atom.min, atom.max)
+    for (let n = 0; n < count; n++) {
+      result += atom.chars === undefined ? arbitraryMatch(atom.alternatives!, a) : atom.chars[a.int(0, atom.chars.length - 1)]
+    }
+  }
+  return result
+}
+
+const arbitraryString = (property:Property<string>, a:Arbitrary):string => {
+  const regex = property.regex
+  if (regex !== undefined) {
+    if (!patterns.has(regex)) patterns.set(regex, parsePattern(regex.source))
+    const pattern = patterns.get(regex)
+    if (pattern !== undefined) return arbitraryMatch(pattern, a)
+  }
+  const length = arbitraryCount(property, a)
+  return Array.from({ length }, () => letters[a.int(0, letters.length - 1)]).join("")
+}
+
+const accepts = (field:Field<any>, json:unknown):boolean => {
+  const fails:Fail[] = []
+  runField(field, field.property.v, "v", "", [], { v:json }, {}, fails)
+  return fails.length === 0
+}
+
+const arbitraryField = (field:Field<any>, a:Arbitrary):unknown => {
+  const p = field.property
+  for (let i = 0; i < 10; i++) {
+    const json = p.allowed !== undefined
+      ? encode(field.type, p.v, p.allowed[a.int(0, p.allowed.length - 1)])
+      : field.type.arbitrary ? field.type.arbitrary(p.v, p, a) : encode(field.type, p.v, p.v)
+    if (accepts(field, json)) return json
+  }
+  return encode(field.type, p.v, p.v)
+}
+
+const arbitraryObject = <S extends Schema>(cls:Class<S>, a:Arbitrary):InputJSON => {
+  const md = metadata<S,Class<S>>(cls)
+  const child = arbitraryContext(a.random, a.depth + 1)
+  for (let i = 0; i < 10; i++) {
+    const json:InputJSON = {}
+    for (const k in md.fields) {
+      const field = md.fields[k]
+      const required = field.property.required ?? true
+      if (required !== true && (a.depth >= maxDepth || a.random() < 0.25)) continue
+      json[k] = arbitraryField(field, child)
+    }
+    if (run2(cls, "", [], json).success) return json
+  }
+  const json = encodeObject(cls, md.sample as Base)
+  const r = run2(cls, "", [], json)
+  if (r.success) return json
+  throw new TypeError(r.fail.prefix === "" ? `can't generate a valid ${cls.name}` : `can't generate a value for ${r.fail.prefix}`)
+}
+
+const beyond = (sample:unknown, limit:unknown, sign:number, json:unknown):unknown => {
+  if (typeof(sample) === "number") return (limit as number) + sign
+  if (typeof(sample) === "bigint") return ((limit as bigint) + BigInt(sign)).toString()
+  if (sample instanceof Date) return new Date((limit as Date).getTime() + sign).toISOString()
+  const length = (limit as number) + sign
+  if (length < 0) return undefined
+  if (typeof(json) === "string") return json.padEnd(length, "a").slice(0, length)
+  if (Array.isArray(json) && json.length > 0) return Array.from({ length }, (_, i) => json[i % json.length])
+  return undefined
+}
+
+const mutations = (field:Field<any>, json:unknown):unknown[] => {
+  const p = field.property
+  const sample = p.v
+  const result:unknown[] = [typeof(sample) === "string" ? 0 : "?"]
+  if ((p.required ?? true) === true) result.push(undefined)
+  if (p.allowed !== undefined) result.push(typeof(sample) === "number" ? Math.max(...p.allowed) + 1 : "~" + p.allowed.join(""))
+  if (p.min !== undefined) result.push(beyond(sample, p.min, -1, json))
+  if (p.max !== undefined) result.push(beyond(sample, p.max, 1, json))
+  if (typeof(json) === "number" && (p.integer ?? true)) result.push(json + 0.5, json - 0.5)
+  if (p.regex !== undefined) result.push("", "!", json + "!")
+  return result
+}
+
+export const arbitrary = <R extends Base,T extends object>(cls:new(fields:T)=>R, options:ArbitraryOptions = {}):R => {
+  const random = seeded(options.seed ?? Math.random() * 4294967296)
+  return raise(cls, within(cls, {}, () => arbitraryObject(cls as never, arbitraryContext(random, 0))))
+}
+
+export const arbitraryInvalid = <R extends Base,T extends object>(cls:new(fields:T)=>R, options:ArbitraryOptions = {}):Invalid => {
+  const random = seeded(options.seed ?? Math.random() * 4294967296)
+  const md = metadata(cls as never)
+  const json = within(cls, {}, () => arbitraryObject(cls as never, arbitraryContext(random, 0)))
+  const candidates:[string,unknown][] = []
+  for (const k in md.fields) {
+    for (const value of mutations(md.fields[k]!, json[k])) candidates.push([k, value])
+  }
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[candidates[i], candidates[j]] = [candidates[j]!, candidates[i]!]
+  }
+  for (const [k, value] of candidates) {
+    const input = { ...json, [k]:value }
+    if (value === undefined) delete input[k]
+    const r = run(cls, input, { collectAllFails:true })
+    if (!r.success && r.fails.length === 1) return { json:input, fail:r.fail }
+  }
+  throw new TypeError(`can't make an invalid ${cls.name}`)
+}
+
+export const runOne = <R extends Base,T extends object,K extends keyof R>(cls:new(fields:T)=>R, object:R, k:K, v:R[K]):Fail[] => {
+  const field = metadata(cls as never).fields[k as never]
+  return field!.check(v as never)
+}
+
+type O = Record<string,any>
+
+export const augmentWith = (f:(o:O)=>O) => {
+  defaults.augment = f
+}
 
 export const warnWith = (warner:(message:string)=>void):void => {
-  warn = warner
+  defaults.warn = warner
+}
+
+export interface Context {
+  define:typeof define
+  fromJsonSchema:typeof fromJsonSchema
+  addType<T>(type:Type<T>):void
+  skipInvalidObjects(flag:boolean):void
+  collectAllFails(flag:boolean):void
+  coerceTypes(flag:boolean):void
+  augmentWith(f:(o:O)=>O):void
+  warnWith(warner:(message:string)=>void):void
+}
+
+export const createContext = ():Context => {
+  const settings = settingsOf([...builtins])
+  return {
+    define:(schema, options) => using(settings, () => define(schema, options)),
+    fromJsonSchema:doc => using(settings, () => fromJsonSchema(doc)),
+    addType:type => register(settings, type),
+    skipInvalidObjects:flag => { settings.skip = flag },
+    collectAllFails:flag => { settings.all = flag },
+    coerceTypes:flag => { settings.coerce = flag },
+    augmentWith:f => { settings.augment = f },
+    warnWith:warner => { settings.warn = warner },
+  }
+}
+
+export type Formatter = (fail:Fail)=>string
+
+let formatters:Partial<Record<string,Formatter>> = {}
+
+export const formatWith = (registry:Partial<Record<string,Formatter>>):void => {
+  formatters = registry
+}
+
+export const format = (fail:Fail):string => {
+  const formatter = formatters[fail.code]
+  return formatter === undefined ? fail.message : formatter(fail)
 }
 
 }//